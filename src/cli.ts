@@ -0,0 +1,592 @@
+import { resolve } from "node:path";
+
+import { resolveGeneratorOptions } from "./config";
+import {
+  checkAngularWrappers,
+  generateAngularWrappers,
+  generateAngularWrappersFromCem,
+  runCemAnalyze,
+} from "./generator";
+import type {
+  CheckAngularWrappersResult,
+  GenerateAngularWrappersFromCemOptions,
+  GenerateAngularWrappersResult,
+  WatchAngularWrappersOptions,
+} from "./types";
+import { watchAngularWrappers } from "./watch";
+
+/**
+ * Exit codes returned by the command-line interface.
+ */
+export const EXIT_CODES = {
+  /** Command completed successfully */
+  success: 0,
+  /** Analysis or generation failed, or wrappers are out of date */
+  failure: 1,
+  /** Invalid command, flag or flag value */
+  usage: 2,
+} as const;
+
+/**
+ * Options collected from command-line flags.
+ */
+type CliOptions = GenerateAngularWrappersFromCemOptions & {
+  manifestPath?: string;
+  generatorConfigPath?: string;
+  target?: string;
+  watch?: boolean;
+  sourceDirs?: string[];
+  help?: boolean;
+};
+
+/**
+ * Describes how a command-line flag maps onto an option.
+ */
+interface CliFlag {
+  /** Option the flag sets */
+  key: keyof CliOptions;
+  /** How the flag value is read */
+  kind: "string" | "boolean" | "record" | "list";
+  /** Placeholder shown in the help listing */
+  placeholder?: string;
+  /** Help text */
+  description: string;
+}
+
+/**
+ * Supported flags, keyed by flag name without the leading dashes.
+ * Boolean flags also accept a `--no-` prefix.
+ */
+const CLI_FLAGS: Record<string, CliFlag> = {
+  config: {
+    key: "generatorConfigPath",
+    kind: "string",
+    placeholder: "path",
+    description: "cem-angular config file (default: discovered)",
+  },
+  target: {
+    key: "target",
+    kind: "string",
+    placeholder: "name",
+    description: "Named target from the config file",
+  },
+  manifest: {
+    key: "manifestPath",
+    kind: "string",
+    placeholder: "path",
+    description: "Existing custom-elements.json (generate only)",
+  },
+  cwd: {
+    key: "cwd",
+    kind: "string",
+    placeholder: "dir",
+    description: "Working directory for the analyzer",
+  },
+  "out-dir": {
+    key: "outDir",
+    kind: "string",
+    placeholder: "dir",
+    description: "Analyzer output directory (default: dist)",
+  },
+  "cem-config": {
+    key: "configPath",
+    kind: "string",
+    placeholder: "path",
+    description: "Analyzer config file",
+  },
+  analyzer: {
+    key: "analyzerExecutable",
+    kind: "string",
+    placeholder: "name",
+    description: "Analyzer executable (default: cem)",
+  },
+  "skip-analyze": {
+    key: "skip",
+    kind: "boolean",
+    description: "Skip running the analyzer",
+  },
+  "wrappers-root": {
+    key: "wrappersRoot",
+    kind: "string",
+    placeholder: "dir",
+    description: "Directory the wrapper package is generated into",
+  },
+  "components-root": {
+    key: "componentsRoot",
+    kind: "string",
+    placeholder: "dir",
+    description: "Root directory of the component library",
+  },
+  "package-name": {
+    key: "angularPackageName",
+    kind: "string",
+    placeholder: "name",
+    description: "NPM package name of the wrappers",
+  },
+  "library-import": {
+    key: "componentLibraryImport",
+    kind: "string",
+    placeholder: "specifier",
+    description: "Import path of the component library",
+  },
+  "library-version": {
+    key: "componentLibraryVersion",
+    kind: "string",
+    placeholder: "range",
+    description: "Component library version range",
+  },
+  "loader-import": {
+    key: "loaderImportPath",
+    kind: "string",
+    placeholder: "specifier",
+    description: "Import path of the element loader",
+  },
+  registration: {
+    key: "registration",
+    kind: "string",
+    placeholder: "strategy",
+    description: "Element registration: loader (default), lazy, import or scoped",
+  },
+  "element-import-path": {
+    key: "elementImportPaths",
+    kind: "record",
+    placeholder: "prefix=specifier",
+    description: "Import specifier for element modules of a module path prefix (repeatable)",
+  },
+  "selector-prefix": {
+    key: "wrapperSelectorPrefix",
+    kind: "string",
+    placeholder: "prefix",
+    description: "Prefix for wrapper selectors (default: wc-)",
+  },
+  "link-node-modules-from": {
+    key: "linkNodeModulesFrom",
+    kind: "string",
+    placeholder: "dir",
+    description: "Directory whose node_modules are linked into the wrappers",
+  },
+  "angular-version": {
+    key: "angularPeerDependency",
+    kind: "string",
+    placeholder: "range",
+    description: "Angular peer dependency range",
+  },
+  "tslib-version": {
+    key: "tslibVersion",
+    kind: "string",
+    placeholder: "range",
+    description: "tslib dependency range",
+  },
+  "reference-manifest": {
+    key: "referenceManifests",
+    kind: "record",
+    placeholder: "pkg=path",
+    description: "Manifest of another package (repeatable)",
+  },
+  "type-import-path": {
+    key: "typeImportPaths",
+    kind: "record",
+    placeholder: "prefix=specifier",
+    description: "Import specifier for types of a module path prefix (repeatable)",
+  },
+  "type-replacement": {
+    key: "typeReplacements",
+    kind: "record",
+    placeholder: "name=type",
+    description: "Type emitted instead of a type name (repeatable)",
+  },
+  "unresolved-types": {
+    key: "unresolvedTypeFallback",
+    kind: "string",
+    placeholder: "mode",
+    description: "Emit unresolved types as: import (default), unknown or any",
+  },
+  "strict-types": {
+    key: "strictTypes",
+    kind: "boolean",
+    description: "Fail when a wrapper uses an unresolved type",
+  },
+  augment: {
+    key: "augmentAngularOutput",
+    kind: "boolean",
+    description: "Generate the augmented output structure",
+  },
+  standalone: {
+    key: "standalone",
+    kind: "boolean",
+    description: "Generate standalone components (default: true)",
+  },
+  signals: {
+    key: "signals",
+    kind: "boolean",
+    description: "Generate signal-based inputs and outputs",
+  },
+  "slot-directives": {
+    key: "slotDirectives",
+    kind: "boolean",
+    description: "Generate slot helper directives",
+  },
+  "css-vars": {
+    key: "cssVars",
+    kind: "boolean",
+    description: "Generate a typed cssVars input for CSS custom properties",
+  },
+  "form-controls": {
+    key: "formControls",
+    kind: "boolean",
+    description: "Generate ControlValueAccessors for form controls",
+  },
+  watch: {
+    key: "watch",
+    kind: "boolean",
+    description: "Regenerate whenever the manifest changes (generate, run)",
+  },
+  "watch-source": {
+    key: "sourceDirs",
+    kind: "list",
+    placeholder: "dir",
+    description: "Source directory re-analyzed on change (repeatable)",
+  },
+  "dry-run": {
+    key: "dryRun",
+    kind: "boolean",
+    description: "Print the planned changes without writing files",
+  },
+  help: {
+    key: "help",
+    kind: "boolean",
+    description: "Show this help",
+  },
+};
+
+const COMMANDS: Record<string, string> = {
+  analyze: "Run the Custom Elements Manifest analyzer only",
+  generate: "Generate wrappers from an existing manifest (requires --manifest)",
+  run: "Run the analyzer, then generate wrappers",
+  check: "Fail if generated wrappers are out of date (analyzes unless --manifest)",
+};
+
+/**
+ * Error raised for invalid command-line usage.
+ */
+class CliUsageError extends Error {}
+
+/**
+ * Builds the --help listing from the command and flag tables.
+ */
+export const formatHelp = (): string => {
+  const flagLines = Object.entries(CLI_FLAGS).map(([name, flag]) => {
+    const label = `--${name}${flag.placeholder ? ` <${flag.placeholder}>` : ""}`;
+    return `  ${label.padEnd(34)}${flag.description}`;
+  });
+  const commandLines = Object.entries(COMMANDS).map(
+    ([name, description]) => `  ${name.padEnd(34)}${description}`
+  );
+
+  return [
+    "Usage: cem-angular <command> [options]",
+    "",
+    "Commands:",
+    ...commandLines,
+    "",
+    "Options:",
+    ...flagLines,
+    "",
+    "Boolean options can be negated with --no-<option>.",
+    "Command-line options take precedence over the config file.",
+  ].join("\n");
+};
+
+/**
+ * Lists the unresolved types of a generation result per component.
+ */
+const formatUnresolvedTypes = (
+  result: GenerateAngularWrappersResult
+): string[] => {
+  if (result.unresolvedTypes.length === 0) {
+    return [];
+  }
+
+  const namesByTag = new Map<string, string[]>();
+  for (const { tagName, name, widenedTo } of result.unresolvedTypes) {
+    const label = `${name} (${
+      widenedTo ? `widened to ${widenedTo}` : "imported from the library root"
+    })`;
+    namesByTag.set(tagName, [...(namesByTag.get(tagName) ?? []), label]);
+  }
+  return [
+    "Unresolved types:",
+    ...Array.from(namesByTag.entries()).map(
+      ([tagName, names]) => `  ${tagName}: ${names.join(", ")}`
+    ),
+  ];
+};
+
+/**
+ * Summarizes a generation result, listing planned changes for dry runs.
+ */
+const formatResult = (
+  result: GenerateAngularWrappersResult,
+  dryRun: boolean | undefined
+): string => {
+  if (!dryRun) {
+    const counts = (["created", "updated", "deleted", "unchanged"] as const)
+      .map((status) => [
+        status,
+        result.files.filter((file) => file.status === status).length,
+      ] as const)
+      .filter(([, count]) => count > 0)
+      .map(([status, count]) => `${count} ${status}`);
+    return [
+      `Generated ${result.components.length} wrapper(s) in ${
+        result.wrappersRoot
+      }${counts.length ? ` (${counts.join(", ")})` : ""}`,
+      ...formatUnresolvedTypes(result),
+    ].join("\n");
+  }
+
+  const { plan } = result;
+  return [
+    `Dry run: ${result.components.length} wrapper(s) in ${result.wrappersRoot}`,
+    ...formatUnresolvedTypes(result),
+    ...plan.create.map((file) => `  create  ${file.path}`),
+    ...plan.modify.map((file) => `  modify  ${file.path}`),
+    ...plan.delete.map((path) => `  delete  ${path}`),
+    ...plan.symlinks.map(
+      (symlink) => `  link    ${symlink.path} -> ${symlink.target}`
+    ),
+    ...plan.modify.map((file) => file.diff ?? ""),
+  ]
+    .join("\n")
+    .trimEnd();
+};
+
+/**
+ * Summarizes a check result, listing every out-of-date file.
+ */
+const formatCheckResult = (result: CheckAngularWrappersResult): string => {
+  if (result.upToDate) {
+    return `${result.components.length} wrapper(s) in ${result.wrappersRoot} are up to date.`;
+  }
+
+  return [
+    `Wrappers in ${result.wrappersRoot} are out of date; regenerate them.`,
+    ...result.missing.map((path) => `  missing   ${path}`),
+    ...result.stale.map((file) => `  stale     ${file.path}`),
+    ...result.orphaned.map((path) => `  orphaned  ${path}`),
+    ...result.stale.map((file) => file.diff ?? ""),
+  ]
+    .join("\n")
+    .trimEnd();
+};
+
+/**
+ * Starts watch mode. The open watchers keep the process alive until it is
+ * interrupted.
+ */
+const startWatch = (options: WatchAngularWrappersOptions): number => {
+  watchAngularWrappers(options);
+  console.log("Watching for changes. Press Ctrl+C to stop.");
+  return EXIT_CODES.success;
+};
+
+/**
+ * Parses command-line arguments into a command and options.
+ *
+ * @param argv - Arguments without the node executable and script path
+ * @returns The command (if any) and the collected options
+ */
+export const parseCliArgs = (
+  argv: string[]
+): { command?: string; options: CliOptions } => {
+  const options: CliOptions = {};
+  let command: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (!arg.startsWith("--")) {
+      if (command) {
+        throw new CliUsageError(`Unexpected argument "${arg}".`);
+      }
+      command = arg;
+      continue;
+    }
+
+    const [rawName, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+    const negated = rawName.startsWith("no-") && !(rawName in CLI_FLAGS);
+    const name = negated ? rawName.slice(3) : rawName;
+    const flag = CLI_FLAGS[name];
+
+    if (!flag || (negated && flag.kind !== "boolean")) {
+      throw new CliUsageError(`Unknown option "--${rawName}".`);
+    }
+
+    if (flag.kind === "boolean") {
+      if (inlineValue !== undefined) {
+        throw new CliUsageError(`Option "--${name}" does not take a value.`);
+      }
+      (options as Record<string, unknown>)[flag.key] = !negated;
+      continue;
+    }
+
+    const value = inlineValue ?? argv[++i];
+    if (value === undefined || value.startsWith("--")) {
+      throw new CliUsageError(`Option "--${name}" requires a value.`);
+    }
+
+    if (flag.kind === "record") {
+      const separator = value.indexOf("=");
+      if (separator <= 0) {
+        throw new CliUsageError(
+          `Option "--${name}" expects <${flag.placeholder}>, got "${value}".`
+        );
+      }
+      const record = ((options as Record<string, unknown>)[flag.key] ??
+        {}) as Record<string, string>;
+      record[value.slice(0, separator)] = value.slice(separator + 1);
+      (options as Record<string, unknown>)[flag.key] = record;
+      continue;
+    }
+
+    if (flag.kind === "list") {
+      const list = ((options as Record<string, unknown>)[flag.key] ??
+        []) as string[];
+      (options as Record<string, unknown>)[flag.key] = [...list, value];
+      continue;
+    }
+
+    (options as Record<string, unknown>)[flag.key] = value;
+  }
+
+  return { command, options };
+};
+
+/**
+ * Runs the command-line interface.
+ *
+ * @param argv - Arguments without the node executable and script path
+ * @returns Process exit code (see EXIT_CODES)
+ */
+export const runCli = async (argv: string[]): Promise<number> => {
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs(argv);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`${error.message}\n\n${formatHelp()}`);
+      return EXIT_CODES.usage;
+    }
+    throw error;
+  }
+
+  const { command, options } = parsed;
+  if (options.help || !command) {
+    console.log(formatHelp());
+    return options.help ? EXIT_CODES.success : EXIT_CODES.usage;
+  }
+
+  if (!(command in COMMANDS)) {
+    console.error(`Unknown command "${command}".\n\n${formatHelp()}`);
+    return EXIT_CODES.usage;
+  }
+
+  const {
+    generatorConfigPath,
+    target,
+    watch,
+    sourceDirs,
+    help: _help,
+    ...cliOptions
+  } = options;
+
+  if (watch && command !== "generate" && command !== "run") {
+    console.error(`The "${command}" command does not support --watch.`);
+    return EXIT_CODES.usage;
+  }
+
+  try {
+    const { manifestPath, ...generatorOptions } =
+      await resolveGeneratorOptions(cliOptions, {
+        configPath: generatorConfigPath,
+        target,
+      });
+
+    if (command === "analyze") {
+      const analyzedPath = runCemAnalyze(generatorOptions);
+      console.log(
+        analyzedPath
+          ? `Custom Elements Manifest written to ${analyzedPath}`
+          : "Analysis skipped."
+      );
+      return EXIT_CODES.success;
+    }
+
+    if (command === "generate") {
+      const hasManifests =
+        !!generatorOptions.manifests?.length ||
+        !!generatorOptions.manifestPackages?.length;
+      if (!manifestPath && (watch || !hasManifests)) {
+        console.error('The "generate" command requires --manifest <path>.');
+        return EXIT_CODES.usage;
+      }
+      if (watch && manifestPath) {
+        return startWatch({
+          ...generatorOptions,
+          manifestPath: resolve(manifestPath),
+          sourceDirs,
+        });
+      }
+      const result = generateAngularWrappers({
+        ...generatorOptions,
+        manifestPath: manifestPath && resolve(manifestPath),
+      });
+      console.log(formatResult(result, generatorOptions.dryRun));
+      return EXIT_CODES.success;
+    }
+
+    if (command === "check") {
+      const checkedManifestPath = manifestPath
+        ? resolve(manifestPath)
+        : runCemAnalyze(generatorOptions);
+      if (!checkedManifestPath) {
+        // A skipped analysis would check against a possibly stale manifest
+        console.error(
+          "Analysis skipped; cannot check the wrappers. Pass --manifest to check against an existing manifest."
+        );
+        return EXIT_CODES.failure;
+      }
+      const result = checkAngularWrappers({
+        ...generatorOptions,
+        manifestPath: checkedManifestPath,
+      });
+      if (result.upToDate) {
+        console.log(formatCheckResult(result));
+        return EXIT_CODES.success;
+      }
+      console.error(formatCheckResult(result));
+      return EXIT_CODES.failure;
+    }
+
+    if (watch) {
+      // Sources trigger analysis inside the watcher; otherwise analyze once
+      if (!sourceDirs?.length) {
+        runCemAnalyze(generatorOptions);
+      }
+      return startWatch({ ...generatorOptions, sourceDirs });
+    }
+
+    const result = generateAngularWrappersFromCem(generatorOptions);
+    console.log(
+      result
+        ? formatResult(result, generatorOptions.dryRun)
+        : "Analysis skipped; no wrappers generated."
+    );
+    return EXIT_CODES.success;
+  } catch (error) {
+    console.error(
+      `cem-angular ${command} failed: ${(error as Error).message ?? error}`
+    );
+    return EXIT_CODES.failure;
+  }
+};
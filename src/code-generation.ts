@@ -1,5 +1,18 @@
-import { BUILT_IN_TYPE_TOKENS } from "./constants";
-import type { ComponentMeta, ComponentMember, ComponentEvent } from "./types";
+import { BUILT_IN_TYPE_TOKENS, WRAPPER_MEMBER_NAMES } from "./constants";
+import { collectTypeNames, getTypeImportPath } from "./type-resolution";
+import type {
+  ComponentAttribute,
+  ComponentMeta,
+  ComponentMember,
+  ComponentEvent,
+  ComponentMethod,
+  ComponentTemplateContext,
+  ComponentTypeReference,
+  ElementRegistration,
+  PublicApiTemplateContext,
+  RegistrationTemplateContext,
+  SlotDirectiveMeta,
+} from "./types";
 
 /**
  * Converts a kebab-case string to PascalCase.
@@ -36,6 +49,113 @@ export const toIdentifier = (value: string): string => {
   return camel;
 };
 
+/**
+ * Name of the wrapper input for a member; a renamed input keeps the member
+ * name as its alias.
+ */
+export const getMemberInputName = (member: ComponentMember): string =>
+  member.inputName ?? member.name;
+
+/**
+ * Name of the wrapper input for an attribute-only input.
+ */
+export const getAttributeInputName = (attribute: ComponentAttribute): string =>
+  attribute.inputName ?? toIdentifier(attribute.name);
+
+/**
+ * Lists the members a wrapper class declares besides the component API.
+ *
+ * @param component - Component metadata
+ * @param cssVars - Whether the wrapper gets the typed cssVars input
+ * @returns Names the component's inputs, outputs and methods must not use
+ */
+export const getWrapperMemberNames = (
+  component: ComponentMeta,
+  cssVars: boolean = false
+): string[] => [
+  ...WRAPPER_MEMBER_NAMES,
+  ...(component.formControl
+    ? [
+        "onChange",
+        "onTouched",
+        "writeValue",
+        "registerOnChange",
+        "registerOnTouched",
+        "setDisabledState",
+      ]
+    : []),
+  ...(cssVars && component.cssProperties.length > 0
+    ? ["cssVars", "appliedCssVars", "applyCssVars"]
+    : []),
+];
+
+/**
+ * Finds attributes without a backing field. These are generated as attribute
+ * inputs that set the attribute on the element directly. Attributes linked to
+ * a non-public field, or whose input name would clash with another wrapper
+ * member, are skipped.
+ *
+ * @param component - Component metadata
+ * @returns Attributes generated as attribute-only inputs
+ */
+export const getAttributeInputs = (
+  component: ComponentMeta
+): ComponentAttribute[] => {
+  const linkedAttributes = new Set(
+    component.members.map((member) => member.attribute).filter(Boolean)
+  );
+  const takenNames = new Set([
+    ...component.members.flatMap((member) => [
+      member.name,
+      getMemberInputName(member),
+    ]),
+    ...component.events.map((event) => event.outputName),
+    ...component.methods.flatMap((method) => [
+      method.name,
+      method.wrapperName ?? method.name,
+    ]),
+  ]);
+
+  return component.attributes.filter(
+    (attribute) =>
+      !attribute.fieldName &&
+      !linkedAttributes.has(attribute.name) &&
+      !takenNames.has(toIdentifier(attribute.name))
+  );
+};
+
+/**
+ * Picks the Angular input transform that coerces attribute strings for a type,
+ * so `<wc-x disabled>` or `<wc-x max="5">` work from static templates.
+ *
+ * @param type - Member or attribute type
+ * @returns "booleanAttribute", "numberAttribute", or undefined
+ */
+export const getInputTransform = (type: string): string | undefined => {
+  const normalized = type.replace(/\s*\|\s*undefined\b/g, "").trim();
+  if (normalized === "boolean") {
+    return "booleanAttribute";
+  }
+  if (normalized === "number") {
+    return "numberAttribute";
+  }
+  return undefined;
+};
+
+/**
+ * Lists the type texts a wrapper emits for members, attribute inputs, events
+ * and methods.
+ */
+const getWrapperTypeTexts = (component: ComponentMeta): string[] => [
+  ...component.members.map((member) => member.type),
+  ...getAttributeInputs(component).map((attribute) => attribute.type),
+  ...component.events.map((event) => event.type),
+  ...component.methods.flatMap((method) => [
+    ...method.parameters.map((parameter) => parameter.type),
+    method.returnType,
+  ]),
+];
+
 /**
  * Collects custom type tokens from component members and events
  * that need to be imported from the component library.
@@ -44,23 +164,30 @@ export const toIdentifier = (value: string): string => {
  * @param component - Component metadata
  * @returns Set of type tokens that need imports
  */
-export const collectTypeTokens = (component: ComponentMeta): Set<string> => {
-  const typeTokens = new Set<string>();
-
-  const addTypeTokens = (typeText: string) => {
-    // Match capitalized type names (e.g., CustomType, MyInterface)
-    const matches = typeText.match(/\b[A-Z][A-Za-z0-9_]+\b/g) ?? [];
-    matches.forEach((token) => {
-      if (!BUILT_IN_TYPE_TOKENS.has(token)) {
-        typeTokens.add(token);
-      }
-    });
-  };
-
-  component.members.forEach((member) => addTypeTokens(member.type));
-  component.events.forEach((event) => addTypeTokens(event.type));
+export const collectTypeTokens = (component: ComponentMeta): Set<string> =>
+  new Set(
+    getWrapperTypeTexts(component)
+      .flatMap((typeText) => collectTypeNames(typeText))
+      .filter((token) => !BUILT_IN_TYPE_TOKENS.has(token))
+  );
 
-  return typeTokens;
+/**
+ * Finds the resolved type references a wrapper actually uses.
+ *
+ * @param component - Component metadata
+ * @returns Type references appearing in the wrapper's type texts
+ */
+export const getUsedTypeReferences = (
+  component: ComponentMeta
+): ComponentTypeReference[] => {
+  const usedNames = new Set(
+    getWrapperTypeTexts(component).flatMap((typeText) =>
+      collectTypeNames(typeText)
+    )
+  );
+  return component.typeReferences.filter((reference) =>
+    usedNames.has(reference.name)
+  );
 };
 
 /**
@@ -69,12 +196,14 @@ export const collectTypeTokens = (component: ComponentMeta): Set<string> => {
  * @param hasInputs - Whether component has input properties
  * @param hasEvents - Whether component has output events
  * @param standalone - Whether to generate standalone component
+ * @param hasFormControl - Whether component implements ControlValueAccessor
  * @returns Set of Angular import names
  */
 export const getAngularImports = (
   hasInputs: boolean,
   hasEvents: boolean,
-  standalone: boolean
+  standalone: boolean,
+  hasFormControl: boolean = false
 ): Set<string> => {
   const imports = new Set<string>([
     "AfterViewInit",
@@ -93,9 +222,17 @@ export const getAngularImports = (
 
   if (hasEvents) {
     imports.add("EventEmitter");
+    imports.add("Output");
+  }
+
+  // Event listeners are needed for outputs and form control notifications
+  if (hasEvents || hasFormControl) {
     imports.add("NgZone");
     imports.add("OnDestroy");
-    imports.add("Output");
+  }
+
+  if (hasFormControl) {
+    imports.add("forwardRef");
   }
 
   return imports;
@@ -106,33 +243,45 @@ export const getAngularImports = (
  *
  * @param hasInputs - Whether component has input properties
  * @param hasEvents - Whether component has output events
+ * @param hasFormControl - Whether component implements ControlValueAccessor
  * @returns Array of interface names
  */
 export const getLifecycleInterfaces = (
   hasInputs: boolean,
-  hasEvents: boolean
+  hasEvents: boolean,
+  hasFormControl: boolean = false
 ): string[] => {
   const interfaces = ["AfterViewInit"];
   if (hasInputs) {
     interfaces.push("OnChanges");
   }
-  if (hasEvents) {
+  if (hasEvents || hasFormControl) {
     interfaces.push("OnDestroy");
   }
+  if (hasFormControl) {
+    interfaces.push("ControlValueAccessor");
+  }
   return interfaces;
 };
 
 /**
  * Generates @Input() decorator lines for component properties.
+ * Boolean and number properties coerce attribute strings through a transform.
  *
  * @param members - Component members/properties
  * @returns Array of code lines for inputs
  */
 export const generateInputLines = (members: ComponentMember[]): string[] => {
   return members.map((member) => {
-    const decorator = `  @Input() ${member.name}${
-      member.optional ? "?:" : ":"
-    } ${member.type};`;
+    const inputName = getMemberInputName(member);
+    const transform = getInputTransform(member.type);
+    const options = [
+      inputName !== member.name ? `alias: '${member.name}'` : undefined,
+      transform ? `transform: ${transform}` : undefined,
+    ].filter(Boolean);
+    const decorator = `  @Input(${
+      options.length ? `{ ${options.join(", ")} }` : ""
+    }) ${inputName}${member.optional ? "?:" : ":"} ${member.type};`;
 
     if (member.description) {
       return `  /** ${member.description} */\n${decorator}`;
@@ -141,6 +290,137 @@ export const generateInputLines = (members: ComponentMember[]): string[] => {
   });
 };
 
+/**
+ * Generates @Input() lines for attribute-only inputs, aliased to the
+ * attribute name when it is not a valid identifier.
+ *
+ * @param attributes - Attributes without a backing property
+ * @returns Array of code lines for attribute inputs
+ */
+export const generateAttributeInputLines = (
+  attributes: ComponentAttribute[]
+): string[] => {
+  return attributes.map((attribute) => {
+    const inputName = getAttributeInputName(attribute);
+    const transform = getInputTransform(attribute.type);
+    const options = [
+      inputName !== attribute.name ? `alias: '${attribute.name}'` : undefined,
+      transform ? `transform: ${transform}` : undefined,
+    ].filter(Boolean);
+    const decorator = `  @Input(${
+      options.length ? `{ ${options.join(", ")} }` : ""
+    }) ${inputName}?: ${attribute.type};`;
+
+    if (attribute.description) {
+      return `  /** ${attribute.description} */\n${decorator}`;
+    }
+    return decorator;
+  });
+};
+
+/**
+ * Generates the statements that push input values onto the element. Members
+ * linked to an attribute and attribute-only inputs go through the attribute
+ * helpers; other members are set as properties.
+ *
+ * @param component - Component metadata
+ * @param element - Expression evaluating to the host element
+ * @param read - Maps an input name to the expression reading its value
+ * @returns One statement per input, without indentation
+ */
+export const generateInputSyncStatements = (
+  component: ComponentMeta,
+  element: string,
+  read: (name: string) => string
+): string[] => [
+  ...component.members.map((member) =>
+    member.attribute
+      ? `this.setPropertyValue(${element}, '${member.name}', '${
+          member.attribute
+        }', ${read(getMemberInputName(member))});`
+      : `(${element} as any).${member.name} = ${read(
+          getMemberInputName(member)
+        )};`
+  ),
+  ...getAttributeInputs(component).map(
+    (attribute) =>
+      `this.setAttributeValue(${element}, '${attribute.name}', ${read(
+        getAttributeInputName(attribute)
+      )});`
+  ),
+];
+
+/**
+ * Generates the helpers that reflect inputs to attributes. Properties set on
+ * an element before it is upgraded shadow the element's own accessors, so
+ * primitive values are passed as attributes until the element is defined.
+ * This also keeps attributes in server-rendered markup.
+ *
+ * @param component - Component metadata
+ * @returns Code block with the helper methods, or an empty string
+ */
+export const generateAttributeHelperContent = (
+  component: ComponentMeta
+): string => {
+  const hasLinkedMembers = component.members.some((member) => member.attribute);
+  if (!hasLinkedMembers && getAttributeInputs(component).length === 0) {
+    return "";
+  }
+
+  const propertyHelper = hasLinkedMembers
+    ? `
+  private setPropertyValue(element: HTMLElement, property: string, attribute: string, value: unknown): void {
+    const upgraded =
+      typeof customElements !== 'undefined' && customElements.get(element.localName) !== undefined;
+    const primitive = value === null || (typeof value !== 'object' && typeof value !== 'function');
+    if (!upgraded && primitive) {
+      this.setAttributeValue(element, attribute, value);
+      return;
+    }
+    (element as any)[property] = value;
+  }
+`
+    : "";
+
+  return `${propertyHelper}
+  private setAttributeValue(element: HTMLElement, attribute: string, value: unknown): void {
+    if (value === null || value === undefined || value === false) {
+      element.removeAttribute(attribute);
+    } else {
+      element.setAttribute(attribute, value === true ? '' : String(value));
+    }
+  }
+`;
+};
+
+/**
+ * Collects the attribute transforms used by a component's inputs.
+ *
+ * @param component - Component metadata
+ * @param signals - Whether the wrapper uses signal inputs (models take no transform)
+ * @returns Names of the transform functions to import from @angular/core
+ */
+export const getInputTransforms = (
+  component: ComponentMeta,
+  signals: boolean = false
+): Set<string> => {
+  const twoWayBindings = signals
+    ? getTwoWayBindings(component)
+    : new Map<string, ComponentEvent>();
+  const types = [
+    ...component.members
+      .filter((member) => !twoWayBindings.has(member.name))
+      .map((member) => member.type),
+    ...getAttributeInputs(component).map((attribute) => attribute.type),
+  ];
+
+  return new Set(
+    types
+      .map((type) => getInputTransform(type))
+      .filter((transform): transform is string => !!transform)
+  );
+};
+
 /**
  * Generates @Output() decorator lines for component events.
  *
@@ -161,6 +441,65 @@ export const generateEventLines = (events: ComponentEvent[]): string[] => {
   });
 };
 
+/**
+ * Generates proxy methods that forward calls to the underlying element.
+ * Parameter and return descriptions are emitted as JSDoc tags.
+ *
+ * @param methods - Public component methods
+ * @returns Array of code blocks, one per method
+ */
+export const generateMethodLines = (methods: ComponentMethod[]): string[] => {
+  return methods.map((method) => {
+    const signature = method.parameters
+      .map((parameter) =>
+        parameter.rest
+          ? `...${parameter.name}: ${parameter.type}`
+          : `${parameter.name}${parameter.optional ? "?" : ""}: ${
+              parameter.type
+            }`
+      )
+      .join(", ");
+    const args = method.parameters
+      .map((parameter) =>
+        parameter.rest ? `...${parameter.name}` : parameter.name
+      )
+      .join(", ");
+    const call = `(this.host.nativeElement as any).${method.name}(${args})`;
+    const body =
+      method.returnType === "void" ? `    ${call};` : `    return ${call};`;
+
+    const docLines = [
+      ...(method.description
+        ? method.description.split(/\r?\n/).map((line) => line.trim())
+        : []),
+      ...method.parameters
+        .filter((parameter) => parameter.description)
+        .map(
+          (parameter) => `@param ${parameter.name} - ${parameter.description}`
+        ),
+      ...(method.returnDescription
+        ? [`@returns ${method.returnDescription}`]
+        : []),
+    ];
+    const doc =
+      docLines.length === 0
+        ? ""
+        : docLines.length === 1
+        ? `  /** ${docLines[0]} */\n`
+        : `  /**\n${docLines
+            .map((line) => (line ? `   * ${line}` : "   *"))
+            .join("\n")}\n   */\n`;
+
+    return `${doc}  ${method.wrapperName ?? method.name}(${signature}): ${method.returnType} {\n${body}\n  }`;
+  });
+};
+
+/**
+ * Collapses a possibly multi-line description onto one line.
+ */
+const toSingleLine = (text: string): string =>
+  text.replace(/\s*\r?\n\s*/g, " ").trim();
+
 /**
  * Generates the header comment for a component file.
  * Includes description, source file, and generation notice.
@@ -189,7 +528,243 @@ export const buildComponentHeaderComment = (
   const footerLine =
     " * DO NOT EDIT - generated by the Custom Elements → Angular generator.";
 
-  return `/**\n${descriptionLines}\n${sourceLine}\n${footerLine}\n */`;
+  // Theming hooks, in the JSDoc tag format the CEM analyzer reads
+  const themingLines = [
+    ...component.cssProperties.map((property) => {
+      const syntax = property.syntax ? ` {${property.syntax}}` : "";
+      const name = property.default
+        ? `[${property.name}=${property.default}]`
+        : property.name;
+      return ` * @cssprop${syntax} ${name}${
+        property.description ? ` - ${toSingleLine(property.description)}` : ""
+      }`;
+    }),
+    ...component.cssParts.map(
+      (part) =>
+        ` * @csspart ${part.name}${
+          part.description ? ` - ${toSingleLine(part.description)}` : ""
+        }`
+    ),
+  ];
+  const themingBlock = themingLines.length
+    ? `\n *\n${themingLines.join("\n")}`
+    : "";
+
+  return `/**\n${descriptionLines}\n${sourceLine}\n${footerLine}${themingBlock}\n */`;
+};
+
+/**
+ * Names of the exported parts constant and its element type, derived from the
+ * wrapper class, e.g. `WC_MY_BUTTON_PARTS` and `WcMyButtonPart`.
+ *
+ * @param component - Component metadata
+ * @returns Constant and type names
+ */
+export const getCssPartsNames = (
+  component: ComponentMeta
+): { constantName: string; typeName: string } => {
+  const baseName = component.className.replace(/Component$/, "");
+  return {
+    constantName: `${baseName
+      .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+      .toUpperCase()}_PARTS`,
+    typeName: `${baseName}Part`,
+  };
+};
+
+/**
+ * Generates the exported constant listing a component's CSS parts.
+ *
+ * @param component - Component metadata
+ * @returns Code block with the constant and its type, or an empty string
+ */
+export const generateCssPartsContent = (component: ComponentMeta): string => {
+  if (component.cssParts.length === 0) {
+    return "";
+  }
+
+  const { constantName, typeName } = getCssPartsNames(component);
+  return `
+/** CSS parts of <${component.tagName}>, for \`::part()\` selectors. */
+export const ${constantName} = [${component.cssParts
+    .map((part) => `'${part.name}'`)
+    .join(", ")}] as const;
+
+export type ${typeName} = (typeof ${constantName})[number];
+`;
+};
+
+/**
+ * Builds the type of the `cssVars` input from the component's CSS custom
+ * properties, e.g. `Partial<{ '--button-bg': string }>`.
+ *
+ * @param component - Component metadata
+ * @returns TypeScript type text
+ */
+export const getCssVarsType = (component: ComponentMeta): string =>
+  `Partial<{ ${component.cssProperties
+    .map((property) => `'${property.name}': string`)
+    .join("; ")} }>`;
+
+/**
+ * Generates the helper that applies the `cssVars` input to the element and
+ * removes properties that are no longer set.
+ *
+ * @returns Code block with the applied-names field and helper method
+ */
+export const generateCssVarsHelperContent = (): string => `
+  private appliedCssVars: string[] = [];
+
+  private applyCssVars(element: HTMLElement, cssVars: Record<string, string | undefined> | undefined): void {
+    const entries = Object.entries(cssVars ?? {}).filter(
+      (entry): entry is [string, string] => entry[1] !== undefined && entry[1] !== null
+    );
+    const names = entries.map(([name]) => name);
+    this.appliedCssVars
+      .filter((name) => !names.includes(name))
+      .forEach((name) => element.style.removeProperty(name));
+    entries.forEach(([name, value]) => element.style.setProperty(name, value));
+    this.appliedCssVars = names;
+  }
+`;
+
+/**
+ * Builds the barrel lines re-exporting everything a component file exports.
+ *
+ * @param component - Component metadata
+ * @param slotDirectives - Whether slot directives are generated
+ * @param modulePath - Module specifier of the component file
+ * @returns Export statements
+ */
+export const buildComponentExportLines = (
+  component: ComponentMeta,
+  slotDirectives: boolean,
+  modulePath: string
+): string[] => {
+  const values = getExportedClassNames(component, slotDirectives);
+  if (component.cssParts.length === 0) {
+    return [`export { ${values.join(", ")} } from '${modulePath}';`];
+  }
+
+  const { constantName, typeName } = getCssPartsNames(component);
+  return [
+    `export { ${[...values, constantName].join(", ")} } from '${modulePath}';`,
+    `export type { ${typeName} } from '${modulePath}';`,
+  ];
+};
+
+/**
+ * Describes the helper directives generated for the named slots of a
+ * component. The attribute is the camel-cased wrapper selector plus the slot
+ * name, e.g. `wcMyCardHeader` for the `header` slot of `wc-my-card`.
+ *
+ * @param component - Component metadata
+ * @returns One directive per named slot
+ */
+export const getSlotDirectives = (
+  component: ComponentMeta
+): SlotDirectiveMeta[] => {
+  const baseName = component.className.replace(/Component$/, "");
+
+  return component.slots
+    .filter((slot) => slot.name.length > 0)
+    .map((slot) => ({
+      slot,
+      attributeName: toIdentifier(`${component.selector}-${slot.name}`),
+      className: `${baseName}${toPascalCase(
+        toIdentifier(slot.name)
+      )}SlotDirective`,
+    }));
+};
+
+/**
+ * Lists the classes a component file exports: the wrapper and, when enabled,
+ * its slot directives.
+ *
+ * @param component - Component metadata
+ * @param slotDirectives - Whether slot directives are generated
+ * @returns Exported class names
+ */
+export const getExportedClassNames = (
+  component: ComponentMeta,
+  slotDirectives: boolean = false
+): string[] => [
+  component.className,
+  ...(slotDirectives
+    ? getSlotDirectives(component).map((directive) => directive.className)
+    : []),
+];
+
+/**
+ * Builds the JSDoc listing the slots of a wrapper, using `@slot` tags.
+ *
+ * @param component - Component metadata
+ * @param slotDirectives - Whether slot directives are generated
+ * @returns Doc comment followed by a newline, or an empty string
+ */
+export const buildSlotDocComment = (
+  component: ComponentMeta,
+  slotDirectives: boolean = false
+): string => {
+  if (component.slots.length === 0) {
+    return "";
+  }
+
+  const directives = new Map(
+    getSlotDirectives(component).map((directive) => [
+      directive.slot.name,
+      directive,
+    ])
+  );
+  const lines = component.slots.map((slot) => {
+    const directive = slotDirectives ? directives.get(slot.name) : undefined;
+    const text = [
+      slot.description ? toSingleLine(slot.description) : undefined,
+      directive ? `(directive: \`${directive.attributeName}\`)` : undefined,
+    ]
+      .filter(Boolean)
+      .join(" ");
+    return ` * @slot${slot.name ? ` ${slot.name}` : ""}${
+      text ? ` - ${text}` : ""
+    }`;
+  });
+
+  return `/**\n${lines.join("\n")}\n */\n`;
+};
+
+/**
+ * Generates attribute directives that assign projected content to a named
+ * slot, e.g. `<h2 wcMyCardHeader>` renders as `<h2 slot="header">`.
+ *
+ * @param component - Component metadata
+ * @param standalone - Whether to generate standalone directives
+ * @returns Code block with the directive classes, or an empty string
+ */
+export const generateSlotDirectivesContent = (
+  component: ComponentMeta,
+  standalone: boolean
+): string => {
+  return getSlotDirectives(component)
+    .map(
+      (directive) => `
+/**
+ * Projects content into the \`${directive.slot.name}\` slot of <${
+        component.tagName
+      }>.${
+        directive.slot.description
+          ? `\n * ${toSingleLine(directive.slot.description)}`
+          : ""
+      }
+ */
+@Directive({
+  selector: '[${directive.attributeName}]',
+  standalone: ${standalone},
+  host: { slot: '${directive.slot.name}' },
+})
+export class ${directive.className} {}
+`
+    )
+    .join("");
 };
 
 /**
@@ -211,114 +786,758 @@ export const generateComponentDecoratorMetadata = (
     `  changeDetection: ChangeDetectionStrategy.OnPush,`,
     `  standalone: ${standalone},`,
     `  schemas: [CUSTOM_ELEMENTS_SCHEMA],`,
-    // Non-standalone components with inputs need the inputs metadata property
+    // Non-standalone components with inputs need the inputs metadata property,
+    // listing renamed inputs in Angular's 'property: alias' form
     hasInputs && !standalone
-      ? `  // eslint-disable-next-line @angular-eslint/no-inputs-metadata-property\n  inputs: [${component.members
-          .map((m) => `'${m.name}'`)
+      ? `  // eslint-disable-next-line @angular-eslint/no-inputs-metadata-property\n  inputs: [${[
+          ...component.members.map((m) => [getMemberInputName(m), m.name]),
+          ...getAttributeInputs(component).map((a) => [getAttributeInputName(a), a.name]),
+        ]
+          .map(([name, alias]) => (name === alias ? `'${name}'` : `'${name}: ${alias}'`))
           .join(", ")}],`
       : undefined,
+    component.formControl
+      ? `  providers: [
+    {
+      provide: NG_VALUE_ACCESSOR,
+      useExisting: forwardRef(() => ${component.className}),
+      multi: true,
+    },
+  ],`
+      : undefined,
   ];
 
   return metadata.filter(Boolean).join("\n");
 };
 
 /**
- * Generates the complete Angular component wrapper file content.
+ * Finds members that can be bound two-way, i.e. members with a matching
+ * `<member>Change` output (Angular's banana-in-a-box convention).
  *
  * @param component - Component metadata
- * @param componentLibraryImport - Import path for types
- * @param standalone - Whether to generate standalone component
- * @returns Complete TypeScript file content
+ * @returns Map of member name to the event that reports its changes
  */
-export const generateComponentFileContent = (
-  component: ComponentMeta,
-  componentLibraryImport: string,
-  standalone: boolean
-): string => {
-  const hasInputs = component.members.length > 0;
-  const hasEvents = component.events.length > 0;
+export const getTwoWayBindings = (
+  component: ComponentMeta
+): Map<string, ComponentEvent> => {
+  const bindings = new Map<string, ComponentEvent>();
+  component.members.forEach((member) => {
+    const event = component.events.find(
+      (candidate) => candidate.outputName === `${member.name}Change`
+    );
+    if (event) {
+      bindings.set(member.name, event);
+    }
+  });
+  return bindings;
+};
 
-  // Generate imports and metadata
-  const angularImports = getAngularImports(hasInputs, hasEvents, standalone);
-  const lifecycleInterfaces = getLifecycleInterfaces(hasInputs, hasEvents);
-  const inputLines = generateInputLines(component.members);
-  const eventLines = generateEventLines(component.events);
+/**
+ * Builds the statement that mirrors a value onto a wrapper member.
+ * Signal inputs are read-only, so only models are updated in signal mode.
+ */
+const buildMemberUpdate = (
+  component: ComponentMeta,
+  name: string,
+  value: string,
+  signals: boolean
+): string | undefined => {
+  const member = component.members.find((candidate) => candidate.name === name);
+  if (!member) {
+    return undefined;
+  }
+  if (!signals) {
+    return `this.${getMemberInputName(member)} = ${value};`;
+  }
+  return getTwoWayBindings(component).has(name)
+    ? `this.${getMemberInputName(member)}.set(${value});`
+    : undefined;
+};
 
-  // Generate property assignment lines for syncInputs method
-  const assignmentLines = component.members.map(
-    (member) => `    (element as any).${member.name} = this.${member.name};`
-  );
+/**
+ * Generates the ControlValueAccessor implementation for a form control wrapper.
+ * Values written by Angular forms are mirrored onto the wrapper input (when one
+ * exists) so a later input sync does not overwrite them.
+ *
+ * @param component - Component metadata with a form control binding
+ * @param signals - Whether the wrapper uses signal inputs
+ * @returns Code block with the accessor fields and methods
+ */
+export const generateFormControlAccessorContent = (
+  component: ComponentMeta,
+  signals: boolean = false
+): string => {
+  const formControl = component.formControl;
+  if (!formControl) {
+    return "";
+  }
 
-  // Generate event listener setup lines
-  const eventBindingLines = component.events.map(
-    (event) =>
-      `    this.addEventListener('${event.eventName}', (event) => this.${event.outputName}.emit(event as ${event.type}));`
+  const { valueProperty, valueType, disabledProperty } = formControl;
+  const valueUpdate = buildMemberUpdate(
+    component,
+    valueProperty,
+    "value",
+    signals
   );
-
-  // Collect custom types that need to be imported
-  const typeTokens = collectTypeTokens(component);
-  const typeImportLine =
-    typeTokens.size > 0
-      ? `import type { ${Array.from(typeTokens)
-          .sort()
-          .join(", ")} } from '${componentLibraryImport}';\n`
-      : "";
-
-  const componentDecoratorMetadata = generateComponentDecoratorMetadata(
+  const disabledUpdate = buildMemberUpdate(
     component,
-    standalone,
-    hasInputs
+    disabledProperty,
+    "isDisabled",
+    signals
   );
 
-  const headerComment = buildComponentHeaderComment(component);
-
-  // Build the complete file content
-  return `${headerComment}
-import { ${Array.from(angularImports).sort().join(", ")} } from '@angular/core';
-${typeImportLine ? `\n${typeImportLine}` : ""}
+  return `
+  private onChange: (value: ${valueType}) => void = () => {};
+  private onTouched: () => void = () => {};
 
-@Component({
-${componentDecoratorMetadata}
-})
-export class ${component.className} implements ${lifecycleInterfaces.join(
-    ", "
-  )} {
-  @ViewChild('host', { static: true }) private readonly host!: ElementRef<HTMLElement>;
-${inputLines.length ? "\n" + inputLines.join("\n") : ""}
-${eventLines.length ? "\n" + eventLines.join("\n") : ""}
-  private element?: HTMLElement;
-${hasEvents ? "  private teardownFns: Array<() => void> = [];\n" : ""}${
-    hasEvents ? "  constructor(private readonly ngZone: NgZone) {}\n" : ""
+  writeValue(value: ${valueType}): void {
+${valueUpdate ? `    ${valueUpdate}\n` : ""}    (this.host.nativeElement as any).${valueProperty} = value;
   }
-  ngAfterViewInit(): void {
-    this.element = this.host.nativeElement;
-${hasEvents ? "    this.setupEventListeners();\n" : ""}${
-    hasInputs ? "    this.syncInputs();\n" : ""
+
+  registerOnChange(fn: (value: ${valueType}) => void): void {
+    this.onChange = fn;
   }
+
+  registerOnTouched(fn: () => void): void {
+    this.onTouched = fn;
   }
-${
-  hasInputs
-    ? `
-  ngOnChanges(): void {
-    if (!this.element) {
-      return;
-    }
-    this.syncInputs();
+
+  setDisabledState(isDisabled: boolean): void {
+${disabledUpdate ? `    ${disabledUpdate}\n` : ""}    (this.host.nativeElement as any).${disabledProperty} = isDisabled;
   }
-`
-    : ""
-}${
-    hasEvents
-      ? `
-  ngOnDestroy(): void {
-    this.teardownFns.forEach((remove) => remove());
-    this.teardownFns = [];
+`;
+};
+
+/**
+ * Generates the listener setup lines that notify Angular forms of value
+ * changes and touches.
+ *
+ * @param component - Component metadata with a form control binding
+ * @param signals - Whether the wrapper uses signal inputs
+ * @returns Array of code lines for setupEventListeners
+ */
+export const generateFormControlListenerLines = (
+  component: ComponentMeta,
+  signals: boolean = false
+): string[] => {
+  const formControl = component.formControl;
+  if (!formControl) {
+    return [];
   }
-`
+
+  const { valueProperty, changeEvent, touchEvent } = formControl;
+  const valueUpdate = buildMemberUpdate(
+    component,
+    valueProperty,
+    "value",
+    signals
+  );
+
+  return [
+    `    this.addEventListener('${changeEvent}', () => { const value = (this.host.nativeElement as any).${valueProperty}; ${
+      valueUpdate ? `${valueUpdate} ` : ""
+    }this.onChange(value); });`,
+    `    this.addEventListener('${touchEvent}', () => this.onTouched());`,
+  ];
+};
+
+/**
+ * Builds the type-only imports of custom types, one per module they are
+ * imported from, followed by a TODO comment for every type widened because
+ * it could not be resolved. A type also imported as a value from the same
+ * module (the element class of a lazily registered wrapper) is left out.
+ */
+const buildTypeImportLine = (
+  component: ComponentMeta,
+  componentLibraryImport: string,
+  valueImport?: { name: string; importPath: string }
+): string => {
+  const namesByPath = new Map<string, string[]>();
+  for (const reference of getUsedTypeReferences(component)) {
+    const importPath = reference.importPath ?? componentLibraryImport;
+    if (
+      reference.name === valueImport?.name &&
+      importPath === valueImport.importPath
+    ) {
+      continue;
+    }
+    namesByPath.set(importPath, [
+      ...(namesByPath.get(importPath) ?? []),
+      reference.name,
+    ]);
+  }
+
+  const importLines = Array.from(namesByPath.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(
+      ([importPath, names]) =>
+        `import type { ${names.sort().join(", ")} } from '${importPath}';\n`
+    );
+  const todoLines = component.typeFallbacks
+    .filter((fallback) => fallback.widened)
+    .map(
+      (fallback) =>
+        `// TODO: ${fallback.name} could not be resolved and is typed as ${
+          fallback.replacement
+        } (${fallback.usedBy.join(", ")})\n`
+    );
+
+  return [...importLines, ...todoLines].join("");
+};
+
+/**
+ * Builds the imports from the component library: the element class a lazily
+ * registered wrapper defines, then the custom types.
+ */
+const buildLibraryImportLines = (
+  component: ComponentMeta,
+  componentLibraryImport: string,
+  registration: ElementRegistration
+): string => {
+  if (registration !== "lazy") {
+    return buildTypeImportLine(component, componentLibraryImport);
+  }
+
+  const elementImport = {
+    name: component.elementClassName,
+    importPath: component.elementImportPath ?? componentLibraryImport,
+  };
+  return `import { ${elementImport.name} } from '${
+    elementImport.importPath
+  }';\n${buildTypeImportLine(component, componentLibraryImport, elementImport)}`;
+};
+
+/**
+ * Generates the constructor statements of a lazily registered wrapper, which
+ * define its element unless the element is already defined.
+ *
+ * @param component - Component metadata
+ * @returns Array of code lines for the constructor body
+ */
+export const generateElementDefinitionLines = (
+  component: ComponentMeta
+): string[] => [
+  `    if (typeof customElements !== 'undefined' && !customElements.get('${component.tagName}')) {`,
+  `      customElements.define('${component.tagName}', ${component.elementClassName});`,
+  "    }",
+];
+
+/**
+ * Generates signal-based input lines for component properties and
+ * attribute-only inputs. Members with a matching `<member>Change` event become
+ * `model()` signals; boolean and number inputs get an attribute transform.
+ *
+ * @param component - Component metadata
+ * @returns Array of code lines for inputs and models
+ */
+export const generateSignalInputLines = (
+  component: ComponentMeta
+): string[] => {
+  const twoWayBindings = getTwoWayBindings(component);
+
+  const buildInput = (
+    name: string,
+    type: string,
+    optional: boolean,
+    alias?: string
+  ): string => {
+    const transform = getInputTransform(type);
+    const options = [
+      alias ? `alias: '${alias}'` : undefined,
+      transform ? `transform: ${transform}` : undefined,
+    ].filter(Boolean);
+    const optionsArg = options.length ? `{ ${options.join(", ")} }` : "";
+    // Transformed inputs accept any attribute value
+    const typeArgs = transform ? `${type}, unknown` : type;
+
+    if (!optional) {
+      return `  readonly ${name} = input.required<${typeArgs}>(${optionsArg});`;
+    }
+    if (!optionsArg) {
+      return `  readonly ${name} = input<${type}>();`;
+    }
+    return `  readonly ${name} = input<${
+      transform ? `${type} | undefined, unknown` : `${type} | undefined`
+    }>(undefined, ${optionsArg});`;
+  };
+
+  const withDescription = (line: string, description?: string) =>
+    description ? `  /** ${description} */\n${line}` : line;
+
+  const buildModel = (
+    name: string,
+    type: string,
+    optional: boolean,
+    alias?: string
+  ): string => {
+    const optionsArg = alias ? `{ alias: '${alias}' }` : "";
+    if (!optional) {
+      return `  readonly ${name} = model.required<${type}>(${optionsArg});`;
+    }
+    return optionsArg
+      ? `  readonly ${name} = model<${type} | undefined>(undefined, ${optionsArg});`
+      : `  readonly ${name} = model<${type}>();`;
+  };
+
+  return [
+    ...component.members.map((member) => {
+      const inputName = getMemberInputName(member);
+      const alias = inputName !== member.name ? member.name : undefined;
+      const declaration = twoWayBindings.has(member.name)
+        ? buildModel(inputName, member.type, member.optional, alias)
+        : buildInput(inputName, member.type, member.optional, alias);
+      return withDescription(declaration, member.description);
+    }),
+    ...getAttributeInputs(component).map((attribute) => {
+      const inputName = getAttributeInputName(attribute);
+      return withDescription(
+        buildInput(
+          inputName,
+          attribute.type,
+          true,
+          inputName !== attribute.name ? attribute.name : undefined
+        ),
+        attribute.description
+      );
+    }),
+  ];
+};
+
+/**
+ * Generates output() lines for component events.
+ * Events backing a two-way binding are covered by the model and skipped.
+ *
+ * @param component - Component metadata
+ * @returns Array of code lines for outputs
+ */
+export const generateSignalOutputLines = (
+  component: ComponentMeta
+): string[] => {
+  const twoWayEvents = new Set(getTwoWayBindings(component).values());
+
+  return component.events
+    .filter((event) => !twoWayEvents.has(event))
+    .map((event) => {
+      const alias =
+        event.eventName !== event.outputName
+          ? `{ alias: '${event.eventName}' }`
+          : "";
+      const declaration = `  readonly ${event.outputName} = output<${event.type}>(${alias});`;
+
+      if (event.description) {
+        return `  /** ${event.description} */\n${declaration}`;
+      }
+      return declaration;
+    });
+};
+
+/**
+ * Strips the newline before and after a generated code block.
+ */
+const toBlock = (content: string): string =>
+  content.replace(/^\n/, "").replace(/\n$/, "");
+
+/**
+ * Formats class body blocks, each preceded by a blank line.
+ */
+const joinBlocks = (blocks: string[]): string =>
+  blocks.map((block) => `\n${block}\n`).join("");
+
+/**
+ * Renders the parts of a wrapper file that both wrapper styles share: header,
+ * imports, decorator and class declaration.
+ */
+const renderComponentFileHead = (context: ComponentTemplateContext): string =>
+  `${context.header}
+import { ${context.angularImports.join(", ")} } from '@angular/core';
+${context.imports}
+
+${context.classDocComment}@Component({
+${context.decoratorMetadata}
+})
+export class ${context.className}${
+    context.lifecycleInterfaces.length
+      ? ` implements ${context.lifecycleInterfaces.join(", ")}`
       : ""
-  }${
+  } {
+  @ViewChild('host', { static: true }) private readonly host!: ElementRef<HTMLElement>;
+`;
+
+/**
+ * Renders the default signal-based wrapper file from its context.
+ */
+const renderSignalComponentFile = (context: ComponentTemplateContext): string =>
+  `${renderComponentFileHead(context)}${
+    context.inputs.length ? "\n" + context.inputs.join("\n") + "\n" : ""
+  }${context.outputs.length ? "\n" + context.outputs.join("\n") + "\n" : ""}${
+    context.fields.length ? "\n" + context.fields.join("\n") + "\n" : ""
+  }${joinBlocks(
+    [
+      context.constructorCode,
+      ...context.lifecycleHooks,
+      ...context.methods,
+      ...context.helpers,
+    ].filter(Boolean)
+  )}}
+${context.declarations}`;
+
+/**
+ * Renders the default decorator-based wrapper file from its context.
+ */
+const renderDecoratorComponentFile = (
+  context: ComponentTemplateContext
+): string =>
+  `${renderComponentFileHead(context)}${
+    context.inputs.length ? "\n" + context.inputs.join("\n") : ""
+  }
+${context.outputs.length ? "\n" + context.outputs.join("\n") : ""}
+${context.fields.map((field) => `${field}\n`).join("")}${
+    context.constructorCode ? `${context.constructorCode}\n` : ""
+  }${joinBlocks([
+    ...context.lifecycleHooks,
+    ...context.methods,
+    ...context.helpers,
+  ])}
+}
+${context.declarations}`;
+
+/**
+ * Computes the render context of a wrapper that uses signal inputs, outputs
+ * and models. Element properties are synced from inputs through one effect
+ * per member.
+ */
+const buildSignalComponentTemplateContext = (
+  component: ComponentMeta,
+  componentLibraryImport: string,
+  standalone: boolean,
+  slotDirectives: boolean,
+  cssVars: boolean,
+  registration: ElementRegistration
+): ComponentTemplateContext => {
+  const twoWayBindings = getTwoWayBindings(component);
+  const twoWayEvents = new Set(twoWayBindings.values());
+  const outputLines = generateSignalOutputLines(component);
+  const attributeInputs = getAttributeInputs(component);
+  const hasCssVars = cssVars && component.cssProperties.length > 0;
+  const hasInputs =
+    component.members.length > 0 || attributeInputs.length > 0 || hasCssVars;
+  const hasFormControl = !!component.formControl;
+  const hasListeners = component.events.length > 0 || hasFormControl;
+
+  const angularImports = new Set<string>([
+    "ChangeDetectionStrategy",
+    "Component",
+    "CUSTOM_ELEMENTS_SCHEMA",
+    "ElementRef",
+    "ViewChild",
+  ]);
+  if (hasInputs) {
+    angularImports.add("effect");
+  }
+  if (
+    attributeInputs.length > 0 ||
+    hasCssVars ||
+    component.members.some((member) => !twoWayBindings.has(member.name))
+  ) {
+    angularImports.add("input");
+  }
+  getInputTransforms(component, true).forEach((transform) =>
+    angularImports.add(transform)
+  );
+  if (twoWayBindings.size > 0) {
+    angularImports.add("model");
+  }
+  if (outputLines.length > 0) {
+    angularImports.add("output");
+  }
+  if (hasListeners) {
+    ["AfterViewInit", "DestroyRef", "NgZone", "inject"].forEach((name) =>
+      angularImports.add(name)
+    );
+  }
+  if (hasFormControl) {
+    angularImports.add("forwardRef");
+  }
+  const slotDirectivesContent = slotDirectives
+    ? generateSlotDirectivesContent(component, standalone)
+    : "";
+  if (slotDirectivesContent) {
+    angularImports.add("Directive");
+  }
+
+  const lifecycleInterfaces = [
+    ...(hasListeners ? ["AfterViewInit"] : []),
+    ...(hasFormControl ? ["ControlValueAccessor"] : []),
+  ];
+
+  const definitionLines =
+    registration === "lazy" ? generateElementDefinitionLines(component) : [];
+  const effectLines = [
+    ...generateInputSyncStatements(
+      component,
+      "this.host.nativeElement",
+      (name) => `this.${name}()`
+    ),
+    ...(hasCssVars
+      ? ["this.applyCssVars(this.host.nativeElement, this.cssVars());"]
+      : []),
+  ].map((statement) => `    effect(() => {\n      ${statement}\n    });`);
+
+  // Two-way bound members are updated from the element before the change event is emitted
+  const eventBindingLines = [
+    ...component.members.flatMap((member) => {
+      const event = twoWayBindings.get(member.name);
+      return event
+        ? [
+            `    this.addEventListener('${event.eventName}', () => this.${getMemberInputName(
+              member
+            )}.set((this.host.nativeElement as any).${member.name}));`,
+          ]
+        : [];
+    }),
+    ...component.events
+      .filter((event) => !twoWayEvents.has(event))
+      .map(
+        (event) =>
+          `    this.addEventListener('${event.eventName}', (event) => this.${event.outputName}.emit(event as ${event.type}));`
+      ),
+    ...generateFormControlListenerLines(component, true),
+  ];
+
+  const inputLines = [
+    ...generateSignalInputLines(component),
+    ...(hasCssVars
+      ? [
+          `  /** CSS custom properties applied to the element */\n  readonly cssVars = input<${getCssVarsType(
+            component
+          )}>();`,
+        ]
+      : []),
+  ];
+  const methodLines = generateMethodLines(component.methods);
+  const libraryImportLines = buildLibraryImportLines(
+    component,
+    componentLibraryImport,
+    registration
+  );
+  const formsImportLine = hasFormControl
+    ? "import { ControlValueAccessor, NG_VALUE_ACCESSOR } from '@angular/forms';\n"
+    : "";
+
+  const componentDecoratorMetadata = generateComponentDecoratorMetadata(
+    component,
+    standalone,
+    false // signal inputs need no inputs metadata
+  );
+
+  const context: ComponentTemplateContext = {
+    component,
+    signals: true,
+    standalone,
+    header: buildComponentHeaderComment(component),
+    angularImports: Array.from(angularImports).sort(),
+    imports: `${formsImportLine}${
+      libraryImportLines ? `\n${libraryImportLines}` : ""
+    }`,
+    classDocComment: buildSlotDocComment(component, slotDirectives),
+    decoratorMetadata: componentDecoratorMetadata,
+    className: component.className,
+    lifecycleInterfaces,
+    inputs: inputLines,
+    outputs: outputLines,
+    fields: hasListeners
+      ? [
+          "  private readonly ngZone = inject(NgZone);",
+          "  private readonly destroyRef = inject(DestroyRef);",
+        ]
+      : [],
+    constructorCode:
+      hasInputs || definitionLines.length > 0
+        ? `  constructor() {\n${[...definitionLines, ...effectLines].join(
+            "\n"
+          )}\n  }`
+        : "",
+    lifecycleHooks: hasListeners
+      ? ["  ngAfterViewInit(): void {\n    this.setupEventListeners();\n  }"]
+      : [],
+    methods: methodLines,
+    helpers: [
+      generateAttributeHelperContent(component),
+      hasCssVars ? generateCssVarsHelperContent() : "",
+      generateFormControlAccessorContent(component, true),
+      hasListeners
+        ? `
+  private setupEventListeners(): void {
+${eventBindingLines.join("\n")}
+  }
+
+  private addEventListener(eventName: string, listener: (event: Event) => void): void {
+    const element = this.host.nativeElement;
+    const handler = (event: Event) => {
+      this.ngZone.run(() => listener(event));
+    };
+    element.addEventListener(eventName, handler as EventListener);
+    this.destroyRef.onDestroy(() => element.removeEventListener(eventName, handler as EventListener));
+  }
+`
+        : "",
+    ]
+      .map(toBlock)
+      .filter(Boolean),
+    declarations: `${slotDirectivesContent}${generateCssPartsContent(component)}`,
+    renderDefault: () => renderSignalComponentFile(context),
+  };
+  return context;
+};
+
+/**
+ * Computes the render context of a decorator-based wrapper. Inputs are
+ * pushed to the element on every change.
+ */
+const buildDecoratorComponentTemplateContext = (
+  component: ComponentMeta,
+  componentLibraryImport: string,
+  standalone: boolean,
+  slotDirectives: boolean,
+  cssVars: boolean,
+  registration: ElementRegistration
+): ComponentTemplateContext => {
+  const attributeInputs = getAttributeInputs(component);
+  const hasCssVars = cssVars && component.cssProperties.length > 0;
+  const hasInputs =
+    component.members.length > 0 || attributeInputs.length > 0 || hasCssVars;
+  const hasEvents = component.events.length > 0;
+  const hasFormControl = !!component.formControl;
+  const hasListeners = hasEvents || hasFormControl;
+
+  // Generate imports and metadata
+  const angularImports = getAngularImports(
+    hasInputs,
+    hasEvents,
+    standalone,
+    hasFormControl
+  );
+  getInputTransforms(component).forEach((transform) =>
+    angularImports.add(transform)
+  );
+  const slotDirectivesContent = slotDirectives
+    ? generateSlotDirectivesContent(component, standalone)
+    : "";
+  if (slotDirectivesContent) {
+    angularImports.add("Directive");
+  }
+  const lifecycleInterfaces = getLifecycleInterfaces(
+    hasInputs,
+    hasEvents,
+    hasFormControl
+  );
+  const inputLines = [
+    ...generateInputLines(component.members),
+    ...generateAttributeInputLines(attributeInputs),
+    ...(hasCssVars
+      ? [
+          `  /** CSS custom properties applied to the element */\n  @Input() cssVars?: ${getCssVarsType(
+            component
+          )};`,
+        ]
+      : []),
+  ];
+  const eventLines = generateEventLines(component.events);
+  const methodLines = generateMethodLines(component.methods);
+
+  // Generate property assignment lines for syncInputs method
+  const assignmentLines = [
+    ...generateInputSyncStatements(component, "element", (name) => `this.${name}`),
+    ...(hasCssVars ? ["this.applyCssVars(element, this.cssVars);"] : []),
+  ].map((statement) => `    ${statement}`);
+
+  // Generate event listener setup lines
+  const eventBindingLines = [
+    ...component.events.map(
+      (event) =>
+        `    this.addEventListener('${event.eventName}', (event) => this.${event.outputName}.emit(event as ${event.type}));`
+    ),
+    ...generateFormControlListenerLines(component),
+  ];
+
+  const definitionLines =
+    registration === "lazy" ? generateElementDefinitionLines(component) : [];
+
+  // Collect the element class and custom types that need to be imported
+  const libraryImportLines = buildLibraryImportLines(
+    component,
+    componentLibraryImport,
+    registration
+  );
+  const formsImportLine = hasFormControl
+    ? "import { ControlValueAccessor, NG_VALUE_ACCESSOR } from '@angular/forms';\n"
+    : "";
+
+  const componentDecoratorMetadata = generateComponentDecoratorMetadata(
+    component,
+    standalone,
     hasInputs
-      ? `
+  );
+
+  const context: ComponentTemplateContext = {
+    component,
+    signals: false,
+    standalone,
+    header: buildComponentHeaderComment(component),
+    angularImports: Array.from(angularImports).sort(),
+    imports: `${formsImportLine}${
+      libraryImportLines ? `\n${libraryImportLines}` : ""
+    }`,
+    classDocComment: buildSlotDocComment(component, slotDirectives),
+    decoratorMetadata: componentDecoratorMetadata,
+    className: component.className,
+    lifecycleInterfaces,
+    inputs: inputLines,
+    outputs: eventLines,
+    fields: [
+      "  private element?: HTMLElement;",
+      ...(hasListeners
+        ? ["  private teardownFns: Array<() => void> = [];"]
+        : []),
+    ],
+    constructorCode:
+      hasListeners || definitionLines.length > 0
+        ? `  constructor(${
+            hasListeners ? "private readonly ngZone: NgZone" : ""
+          }) {${
+            definitionLines.length ? `\n${definitionLines.join("\n")}\n  ` : ""
+          }}`
+        : "",
+    lifecycleHooks: [
+      `  ngAfterViewInit(): void {
+    this.element = this.host.nativeElement;
+${hasListeners ? "    this.setupEventListeners();\n" : ""}${
+        hasInputs ? "    this.syncInputs();\n" : ""
+      }
+  }`,
+      ...(hasInputs
+        ? [
+            `  ngOnChanges(): void {
+    if (!this.element) {
+      return;
+    }
+    this.syncInputs();
+  }`,
+          ]
+        : []),
+      ...(hasListeners
+        ? [
+            `  ngOnDestroy(): void {
+    this.teardownFns.forEach((remove) => remove());
+    this.teardownFns = [];
+  }`,
+          ]
+        : []),
+    ],
+    methods: methodLines,
+    helpers: [
+      hasInputs
+        ? `
   private syncInputs(): void {
     if (!this.element) {
       return;
@@ -327,10 +1546,12 @@ ${
 ${assignmentLines.join("\n")}
   }
 `
-      : ""
-  }${
-    hasEvents
-      ? `
+        : "",
+      generateAttributeHelperContent(component),
+      hasCssVars ? generateCssVarsHelperContent() : "",
+      generateFormControlAccessorContent(component),
+      hasListeners
+        ? `
   private setupEventListeners(): void {
     if (!this.element) {
       return;
@@ -350,44 +1571,324 @@ ${eventBindingLines.join("\n")}
     this.teardownFns.push(() => element.removeEventListener(eventName, handler as EventListener));
   }
 `
-      : ""
+        : "",
+    ]
+      .map(toBlock)
+      .filter(Boolean),
+    declarations: `${slotDirectivesContent}${generateCssPartsContent(component)}`,
+    renderDefault: () => renderDecoratorComponentFile(context),
+  };
+  return context;
+};
+
+/**
+ * Computes everything a wrapper file is rendered from: imports, decorator
+ * metadata, inputs, outputs, class members and trailing declarations.
+ *
+ * @param component - Component metadata
+ * @param componentLibraryImport - Import path for types, unless set on the component
+ * @param standalone - Whether to generate standalone component
+ * @param signals - Whether to generate signal-based inputs and outputs
+ * @param slotDirectives - Whether to generate slot helper directives
+ * @param cssVars - Whether to generate the typed cssVars input
+ * @param registration - How the custom element is defined
+ * @returns Render context of the wrapper file
+ */
+export const buildComponentTemplateContext = (
+  component: ComponentMeta,
+  componentLibraryImport: string,
+  standalone: boolean,
+  signals: boolean = false,
+  slotDirectives: boolean = false,
+  cssVars: boolean = false,
+  registration: ElementRegistration = "loader"
+): ComponentTemplateContext =>
+  (signals
+    ? buildSignalComponentTemplateContext
+    : buildDecoratorComponentTemplateContext)(
+    component,
+    component.componentLibraryImport ?? componentLibraryImport,
+    standalone,
+    slotDirectives,
+    cssVars,
+    registration
+  );
+
+/**
+ * Generates the complete Angular component wrapper file content.
+ *
+ * @param component - Component metadata
+ * @param componentLibraryImport - Import path for types, unless set on the component
+ * @param standalone - Whether to generate standalone component
+ * @param signals - Whether to generate signal-based inputs and outputs
+ * @param slotDirectives - Whether to generate slot helper directives
+ * @param cssVars - Whether to generate the typed cssVars input
+ * @param registration - How the custom element is defined
+ * @param template - Template replacing the default rendering
+ * @returns Complete TypeScript file content
+ */
+export const generateComponentFileContent = (
+  component: ComponentMeta,
+  componentLibraryImport: string,
+  standalone: boolean,
+  signals: boolean = false,
+  slotDirectives: boolean = false,
+  cssVars: boolean = false,
+  registration: ElementRegistration = "loader",
+  template?: (context: ComponentTemplateContext) => string
+): string => {
+  const context = buildComponentTemplateContext(
+    component,
+    componentLibraryImport,
+    standalone,
+    signals,
+    slotDirectives,
+    cssVars,
+    registration
+  );
+  return template ? template(context) : context.renderDefault();
+};
+
+/**
+ * Renders the registration file of wrappers that define their own elements.
+ */
+const renderLazyRegistrationContent = (
+  context: RegistrationTemplateContext
+): string => `/**
+ * Wrappers define their own elements on first instantiation, so there is
+ * nothing to register up front. Kept for loader-based setups calling it.
+ */
+export const ${context.functionName} = (): void => {};
+`;
+
+/**
+ * Resolves the import specifier of an element module for import and scoped
+ * registration: the `elementImportPaths` mapping, else the module's path
+ * within its package, and the package root only when the module is unknown.
+ *
+ * @param mappedImportPath - Specifier mapped through `elementImportPaths`
+ * @param modulePath - Module path from the manifest
+ * @param componentLibraryImport - Import path of the component's package
+ * @returns Import specifier of the module
+ */
+const getElementModuleImportPath = (
+  mappedImportPath: string | undefined,
+  modulePath: string | undefined,
+  componentLibraryImport: string
+): string =>
+  mappedImportPath ??
+  getTypeImportPath(
+    { module: modulePath },
+    { "": `${componentLibraryImport}/` }
+  ) ??
+  componentLibraryImport;
+
+/**
+ * Renders the registration file importing the modules that define the
+ * elements, once per module.
+ */
+const renderImportRegistrationContent = (
+  context: RegistrationTemplateContext
+): string => {
+  const importPaths = new Set(
+    context.components.map((component) =>
+      getElementModuleImportPath(
+        component.definitionImportPath,
+        component.definitionModule,
+        component.componentLibraryImport ?? context.componentLibraryImport
+      )
+    )
+  );
+
+  return `${Array.from(importPaths)
+    .sort()
+    .map((importPath) => `import '${importPath}';\n`)
+    .join("")}
+/**
+ * Importing this file defines the elements, as their modules register them
+ * when loaded. Kept for loader-based setups calling it.
+ */
+export const ${context.functionName} = (): void => {};
+`;
+};
+
+/**
+ * Renders the registration file defining the element classes in a custom
+ * element registry. Classes of the same name from different modules are
+ * imported under numbered aliases.
+ */
+const renderScopedRegistrationContent = (
+  context: RegistrationTemplateContext
+): string => {
+  const getImportPath = (component: ComponentMeta) =>
+    getElementModuleImportPath(
+      component.elementImportPath,
+      component.elementModule,
+      component.componentLibraryImport ?? context.componentLibraryImport
+    );
+  const importKey = (component: ComponentMeta) =>
+    `${getImportPath(component)}::${component.elementClassName}`;
+
+  const localNames = new Map<string, string>();
+  const namesByPath = new Map<string, string[]>();
+  const usedNames = new Set<string>();
+  const sortedComponents = [...context.components].sort(
+    (a, b) =>
+      getImportPath(a).localeCompare(getImportPath(b)) ||
+      a.elementClassName.localeCompare(b.elementClassName)
+  );
+  for (const component of sortedComponents) {
+    const key = importKey(component);
+    if (localNames.has(key)) {
+      continue;
+    }
+
+    const name = component.elementClassName;
+    let localName = name;
+    for (let index = 2; usedNames.has(localName); index++) {
+      localName = `${name}${index}`;
+    }
+    usedNames.add(localName);
+    localNames.set(key, localName);
+
+    const importPath = getImportPath(component);
+    namesByPath.set(importPath, [
+      ...(namesByPath.get(importPath) ?? []),
+      localName === name ? name : `${name} as ${localName}`,
+    ]);
   }
-}
+
+  return `${Array.from(namesByPath.entries())
+    .map(
+      ([importPath, names]) =>
+        `import { ${names.join(", ")} } from '${importPath}';\n`
+    )
+    .join("")}
+const elements: Array<[string, CustomElementConstructor]> = [
+${context.components
+  .map(
+    (component) =>
+      `  ['${component.tagName}', ${localNames.get(importKey(component))}],\n`
+  )
+  .join("")}];
+
+/**
+ * Defines the elements in a custom element registry, e.g. a scoped registry
+ * passed to attachShadow({ registry }), skipping tags it already defines.
+ * Defaults to the global registry.
+ */
+export const ${context.functionName} = (
+  registry: CustomElementRegistry | undefined = globalThis.customElements
+): void => {
+  if (!registry) {
+    return;
+  }
+
+  for (const [tagName, element] of elements) {
+    if (!registry.get(tagName)) {
+      registry.define(tagName, element);
+    }
+  }
+};
 `;
 };
 
 /**
- * Generates the register web components file content.
+ * Renders the registration file calling the defineCustomElements of every
+ * loader; loaders after the first are imported under numbered aliases.
  */
-export const generateRegisterWebComponentsContent = (
-  loaderImportPath: string
+const renderLoaderRegistrationContent = (
+  context: RegistrationTemplateContext
 ): string => {
-  return `import { defineCustomElements } from '${loaderImportPath}';
+  const loaders = context.loaderImportPaths.map((importPath, index) => ({
+    importPath,
+    name:
+      index === 0 ? "defineCustomElements" : `defineCustomElements${index + 1}`,
+  }));
 
+  return `${loaders
+    .map(({ importPath, name }) =>
+      name === "defineCustomElements"
+        ? `import { defineCustomElements } from '${importPath}';\n`
+        : `import { defineCustomElements as ${name} } from '${importPath}';\n`
+    )
+    .join("")}
 let componentsDefined = false;
 
-export const registerWebComponents = (): void => {
+export const ${context.functionName} = (): void => {
   if (componentsDefined || typeof window === 'undefined') {
     return;
   }
 
-  defineCustomElements(window);
-  componentsDefined = true;
+${loaders.map(({ name }) => `  ${name}(window);\n`).join("")}  componentsDefined = true;
 };
 `;
 };
 
+/**
+ * Renderers of the default registration file per registration strategy.
+ */
+const REGISTRATION_RENDERERS: Record<
+  ElementRegistration,
+  (context: RegistrationTemplateContext) => string
+> = {
+  loader: renderLoaderRegistrationContent,
+  lazy: renderLazyRegistrationContent,
+  import: renderImportRegistrationContent,
+  scoped: renderScopedRegistrationContent,
+};
+
+/**
+ * Generates the file registering the custom elements: through the loader,
+ * by importing the modules defining them, or in a given registry. Under lazy
+ * registration the function does nothing.
+ *
+ * @param components - Components whose elements are registered
+ * @param componentLibraryImport - Import path for unmapped element modules
+ * @param loaderImportPaths - Import paths of the loaders, one per package
+ * @param functionName - Name of the exported registration function
+ * @param registration - How the custom elements are defined
+ * @param template - Template replacing the default rendering
+ * @returns Registration file content
+ */
+export const generateRegistrationContent = (
+  components: ComponentMeta[],
+  componentLibraryImport: string,
+  loaderImportPaths: string[],
+  functionName: string,
+  registration: ElementRegistration = "loader",
+  template?: (context: RegistrationTemplateContext) => string
+): string => {
+  const context: RegistrationTemplateContext = {
+    components,
+    componentLibraryImport,
+    loaderImportPath: loaderImportPaths[0],
+    loaderImportPaths,
+    registration,
+    functionName,
+    renderDefault: () => REGISTRATION_RENDERERS[context.registration](context),
+  };
+  return template ? template(context) : context.renderDefault();
+};
+
 /**
  * Generates the web components module file content (for NgModule-based apps).
+ * Standalone wrappers cannot be declared, so they are imported and re-exported
+ * instead.
+ *
+ * @param standalone - Whether the wrappers are standalone components
+ * @returns NgModule file content
  */
-export const generateWebComponentsModuleContent = (): string => {
+export const generateWebComponentsModuleContent = (
+  standalone: boolean
+): string => {
   return `import { CUSTOM_ELEMENTS_SCHEMA, NgModule } from '@angular/core';
 
 import { DIRECTIVES } from './directives';
 import { registerWebComponents } from './register-web-components';
 
 @NgModule({
-  declarations: [...DIRECTIVES],
+  ${standalone ? "imports" : "declarations"}: [...DIRECTIVES],
   exports: [...DIRECTIVES],
   schemas: [CUSTOM_ELEMENTS_SCHEMA],
 })
@@ -404,65 +1905,125 @@ export class WebComponentsModule {
  * Generates the directives aggregation file content.
  */
 export const generateDirectivesContent = (): string => {
-  return `import { DIRECTIVES as STENCIL_ONLY_DIRECTIVES } from './index';
-import { LIT_DIRECTIVES } from './lit';
-
-export const DIRECTIVES = [
-  ...STENCIL_ONLY_DIRECTIVES,
-  ...LIT_DIRECTIVES,
-] as const;
+  return `import { LIT_DIRECTIVES } from './lit';
 
-export { STENCIL_ONLY_DIRECTIVES, LIT_DIRECTIVES };
+export const DIRECTIVES = [...LIT_DIRECTIVES] as const;
 `;
 };
 
 /**
- * Generates the lit index file content with component exports.
+ * Renders a barrel exporting the wrapper files in `directory` (e.g. "./lib/")
+ * with the template, or with the default rendering.
  */
-export const generateLitIndexContent = (components: ComponentMeta[]): string => {
-  if (components.length === 0) {
-    return `export const LIT_DIRECTIVES: readonly any[] = [];\n`;
-  }
+const generateBarrelContent = (
+  components: ComponentMeta[],
+  slotDirectives: boolean,
+  directory: string,
+  template: ((context: PublicApiTemplateContext) => string) | undefined,
+  renderDefault: (context: PublicApiTemplateContext) => string
+): string => {
+  const context: PublicApiTemplateContext = {
+    components,
+    modules: components.map((component) => {
+      const path = `${directory}${component.fileName.replace(".ts", "")}`;
+      return {
+        component,
+        path,
+        classNames: getExportedClassNames(component, slotDirectives),
+        exportLines: buildComponentExportLines(component, slotDirectives, path),
+      };
+    }),
+    renderDefault: () => renderDefault(context),
+  };
+  return template ? template(context) : context.renderDefault();
+};
 
-  const importLines = components
+/**
+ * Lists the import, export and array entry lines of a barrel.
+ */
+const getBarrelLines = (context: PublicApiTemplateContext) => ({
+  importLines: context.modules
     .map(
-      (component) =>
-        `import { ${component.className} } from './${component.fileName.replace(
-          ".ts",
-          ""
-        )}';`
+      (module) =>
+        `import { ${module.classNames.join(", ")} } from '${module.path}';`
     )
-    .join("\n");
+    .join("\n"),
+  exportLines: context.modules
+    .flatMap((module) => module.exportLines)
+    .join("\n"),
+  arrayEntries: context.modules
+    .flatMap((module) => module.classNames)
+    .map((className) => `  ${className},`)
+    .join("\n"),
+});
 
-  const reExports = components
-    .map(
-      (component) =>
-        `export { ${component.className} } from './${component.fileName.replace(
-          ".ts",
-          ""
-        )}';`
-    )
-    .join("\n");
+/**
+ * Generates the public API barrel of the wrappers package.
+ *
+ * @param components - Component metadata
+ * @param slotDirectives - Whether slot directives are generated
+ * @param template - Template replacing the default rendering
+ * @returns src/public-api.ts file content
+ */
+export const generateWrappersPublicApiContent = (
+  components: ComponentMeta[],
+  slotDirectives: boolean = false,
+  template?: (context: PublicApiTemplateContext) => string
+): string =>
+  generateBarrelContent(
+    components,
+    slotDirectives,
+    "./lib/",
+    template,
+    (context) => {
+      const { importLines, exportLines, arrayEntries } = getBarrelLines(context);
+      return `${importLines}
+${exportLines}
+export { registerStencilComponents } from './register-stencil-components';
 
-  const arrayEntries = components
-    .map((component) => `  ${component.className},`)
-    .join("\n");
+export const STENCIL_WRAPPER_COMPONENTS = [
+${arrayEntries}
+] as const;
+`;
+    }
+  );
 
-  return `${importLines}
+/**
+ * Generates the lit index file content with component exports.
+ *
+ * @param components - Component metadata
+ * @param slotDirectives - Whether slot directives are generated
+ * @param template - Template replacing the default rendering
+ * @returns lit/index.ts file content
+ */
+export const generateLitIndexContent = (
+  components: ComponentMeta[],
+  slotDirectives: boolean = false,
+  template?: (context: PublicApiTemplateContext) => string
+): string =>
+  generateBarrelContent(components, slotDirectives, "./", template, (context) => {
+    if (context.modules.length === 0) {
+      return `export const LIT_DIRECTIVES: readonly any[] = [];\n`;
+    }
 
-${reExports}
+    const { importLines, exportLines, arrayEntries } = getBarrelLines(context);
+    return `${importLines}
+
+${exportLines}
 
 export const LIT_DIRECTIVES = [
 ${arrayEntries}
 ] as const;
 `;
-};
+  });
 
 /**
  * Generates the public API file content for augmented output.
  */
 export const generatePublicApiContent = (): string => {
-  return `
-    export * from './lib/lit';
+  return `export * from './lib/lit';
+export * from './lib/directives';
+export * from './lib/register-web-components';
+export * from './lib/web-components.module';
 `;
 };
@@ -0,0 +1,424 @@
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, extname, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+
+import { CONFIG_FILE_NAMES } from "./constants";
+import type {
+  FormControlMapping,
+  GeneratorConfigFile,
+  GeneratorConfigOptions,
+  GeneratorPlugin,
+  LoadedGeneratorConfig,
+  LoadGeneratorConfigOptions,
+  ManifestSource,
+  NamingStrategy,
+  WrapperTemplates,
+} from "./types";
+
+type OptionKind = "string" | "boolean" | "object" | "array" | "function";
+
+/**
+ * Expected shape of an option value.
+ */
+interface OptionShape {
+  /** Accepted value kinds */
+  kinds: OptionKind[];
+  /** Known keys of an object value */
+  fields?: Record<string, OptionShape>;
+  /** Shape of every item of an array or value of a keyed object */
+  entries?: OptionShape;
+  /** Whether the key must be present in its parent object */
+  required?: boolean;
+}
+
+/**
+ * Accepted value kinds for every config option. Typed against
+ * GeneratorConfigOptions so new options cannot be forgotten here.
+ */
+const OPTION_KINDS: Record<keyof GeneratorConfigOptions, OptionKind[]> = {
+  manifestPath: ["string"],
+  manifests: ["array"],
+  manifestPackages: ["array"],
+  cwd: ["string"],
+  outDir: ["string"],
+  configPath: ["string"],
+  analyzerExecutable: ["string"],
+  skip: ["boolean"],
+  spawnOptions: ["object"],
+  wrappersRoot: ["string"],
+  componentsRoot: ["string"],
+  angularPackageName: ["string"],
+  componentLibraryImport: ["string"],
+  componentLibraryVersion: ["string"],
+  loaderImportPath: ["string"],
+  registration: ["string"],
+  elementImportPaths: ["object"],
+  wrapperSelectorPrefix: ["string"],
+  naming: ["object"],
+  linkNodeModulesFrom: ["string"],
+  angularPeerDependency: ["string"],
+  tslibVersion: ["string"],
+  augmentAngularOutput: ["boolean"],
+  standalone: ["boolean"],
+  signals: ["boolean"],
+  formControls: ["boolean", "object"],
+  referenceManifests: ["object"],
+  slotDirectives: ["boolean"],
+  cssVars: ["boolean"],
+  typeImportPaths: ["object"],
+  typeReplacements: ["object"],
+  unresolvedTypeFallback: ["string"],
+  strictTypes: ["boolean"],
+  plugins: ["array"],
+  templates: ["object"],
+  dryRun: ["boolean"],
+};
+
+const shape = (...kinds: OptionKind[]): OptionShape => ({ kinds });
+
+const required = (...kinds: OptionKind[]): OptionShape => ({
+  kinds,
+  required: true,
+});
+
+const STRING_RECORD: OptionShape = { kinds: ["object"], entries: shape("string") };
+
+const MANIFEST_SOURCE_FIELDS: Record<keyof ManifestSource, OptionShape> = {
+  manifestPath: required("string"),
+  componentLibraryImport: required("string"),
+  componentLibraryVersion: shape("string"),
+  loaderImportPath: shape("string"),
+  wrapperSelectorPrefix: shape("string"),
+  componentsRoot: shape("string"),
+  typeImportPaths: STRING_RECORD,
+  elementImportPaths: STRING_RECORD,
+};
+
+const NAMING_FIELDS: Record<keyof NamingStrategy, OptionShape> = {
+  stripTagPrefix: shape("string"),
+  selector: shape("string", "function"),
+  className: shape("string", "function"),
+  fileName: shape("string", "function"),
+  outputName: shape("string", "function"),
+  onCollision: shape("string", "function"),
+};
+
+const FORM_CONTROL_MAPPING_FIELDS: Record<keyof FormControlMapping, OptionShape> =
+  {
+    valueProperty: shape("string"),
+    changeEvent: shape("string"),
+    touchEvent: shape("string"),
+    disabledProperty: shape("string"),
+  };
+
+const TEMPLATE_FIELDS: Record<keyof WrapperTemplates, OptionShape> = {
+  componentFile: shape("function"),
+  publicApi: shape("function"),
+  registration: shape("function"),
+};
+
+const PLUGIN_FIELDS: Record<keyof GeneratorPlugin, OptionShape> = {
+  name: required("string"),
+  transformManifest: shape("function"),
+  transformComponentMeta: shape("function"),
+  transformComponentSource: shape("function"),
+  emitAdditionalFiles: shape("function"),
+  afterGenerate: shape("function"),
+};
+
+/**
+ * Shapes of option values with nested keys. `spawnOptions` is passed to
+ * child_process as is and not checked further.
+ */
+const NESTED_OPTION_SHAPES: Partial<
+  Record<keyof GeneratorConfigOptions, Omit<OptionShape, "kinds">>
+> = {
+  manifests: { entries: { kinds: ["object"], fields: MANIFEST_SOURCE_FIELDS } },
+  manifestPackages: { entries: shape("string") },
+  elementImportPaths: STRING_RECORD,
+  naming: { fields: NAMING_FIELDS },
+  formControls: {
+    fields: {
+      detect: shape("boolean"),
+      mappings: {
+        kinds: ["object"],
+        entries: { kinds: ["object", "boolean"], fields: FORM_CONTROL_MAPPING_FIELDS },
+      },
+    },
+  },
+  referenceManifests: STRING_RECORD,
+  typeImportPaths: STRING_RECORD,
+  typeReplacements: STRING_RECORD,
+  plugins: { entries: { kinds: ["object"], fields: PLUGIN_FIELDS } },
+  templates: { fields: TEMPLATE_FIELDS },
+};
+
+/**
+ * Options holding filesystem paths, resolved relative to the config file.
+ */
+const PATH_OPTIONS = [
+  "manifestPath",
+  "cwd",
+  "wrappersRoot",
+  "componentsRoot",
+  "linkNodeModulesFrom",
+] as const;
+
+/**
+ * Imports an ES module without TypeScript rewriting `import()` to `require()`,
+ * which cannot load `.mjs` files.
+ */
+const importModule = (filePath: string): Promise<{ default?: unknown }> => {
+  const nativeImport = new Function(
+    "specifier",
+    "return import(specifier)"
+  ) as (specifier: string) => Promise<{ default?: unknown }>;
+  return nativeImport(pathToFileURL(filePath).href);
+};
+
+const kindOf = (value: unknown): string =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+/**
+ * Collects validation problems for a value and, for objects and arrays, its
+ * nested keys and items.
+ */
+const validateShape = (
+  value: unknown,
+  location: string,
+  expected: OptionShape
+): string[] => {
+  const kind = kindOf(value);
+  if (!expected.kinds.includes(kind as OptionKind)) {
+    return [
+      `Option "${location}" must be ${expected.kinds.join(" or ")}, got ${kind}.`,
+    ];
+  }
+
+  const problems: string[] = [];
+  if (expected.fields && kind === "object") {
+    for (const [key, fieldValue] of Object.entries(value as object)) {
+      const field = expected.fields[key];
+      if (!field) {
+        problems.push(`Unknown option "${location}.${key}".`);
+      } else if (fieldValue !== undefined) {
+        problems.push(...validateShape(fieldValue, `${location}.${key}`, field));
+      }
+    }
+    for (const [key, field] of Object.entries(expected.fields)) {
+      if (field.required && (value as Record<string, unknown>)[key] === undefined) {
+        problems.push(`Option "${location}.${key}" is required.`);
+      }
+    }
+  }
+  if (expected.entries && kind === "array") {
+    (value as unknown[]).forEach((item, index) =>
+      problems.push(
+        ...validateShape(item, `${location}[${index}]`, expected.entries!)
+      )
+    );
+  } else if (expected.entries && kind === "object") {
+    for (const [key, entry] of Object.entries(value as object)) {
+      problems.push(
+        ...validateShape(entry, `${location}.${key}`, expected.entries)
+      );
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * Collects validation problems for one options object.
+ */
+const validateOptions = (
+  options: unknown,
+  location: string,
+  allowTargets: boolean
+): string[] => {
+  if (kindOf(options) !== "object") {
+    return [`${location} must be an object, got ${kindOf(options)}.`];
+  }
+
+  const problems: string[] = [];
+  for (const [key, value] of Object.entries(options as object)) {
+    if (key === "targets" && allowTargets) {
+      if (kindOf(value) !== "object") {
+        problems.push(`"targets" must be an object, got ${kindOf(value)}.`);
+        continue;
+      }
+      for (const [name, target] of Object.entries(value as object)) {
+        problems.push(...validateOptions(target, `targets.${name}`, false));
+      }
+      continue;
+    }
+
+    const prefix = location ? `${location}.` : "";
+    const kinds = OPTION_KINDS[key as keyof GeneratorConfigOptions];
+    if (!kinds) {
+      problems.push(`Unknown option "${prefix}${key}".`);
+      continue;
+    }
+
+    if (value !== undefined) {
+      problems.push(
+        ...validateShape(value, `${prefix}${key}`, {
+          kinds,
+          ...NESTED_OPTION_SHAPES[key as keyof GeneratorConfigOptions],
+        })
+      );
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * Resolves path options of a config section against the config directory.
+ */
+const resolvePaths = (
+  options: GeneratorConfigOptions,
+  baseDir: string
+): GeneratorConfigOptions => {
+  const resolved: GeneratorConfigOptions = { ...options };
+  for (const key of PATH_OPTIONS) {
+    const value = resolved[key];
+    if (typeof value === "string") {
+      resolved[key] = resolve(baseDir, value);
+    }
+  }
+  if (resolved.manifests) {
+    resolved.manifests = resolved.manifests.map((source) => ({
+      ...source,
+      manifestPath: resolve(baseDir, source.manifestPath),
+      ...(source.componentsRoot
+        ? { componentsRoot: resolve(baseDir, source.componentsRoot) }
+        : {}),
+    }));
+  }
+  if (resolved.referenceManifests) {
+    resolved.referenceManifests = Object.fromEntries(
+      Object.entries(resolved.referenceManifests).map(([name, path]) => [
+        name,
+        resolve(baseDir, path),
+      ])
+    );
+  }
+  return resolved;
+};
+
+/**
+ * Finds a config file next to the manifest, then in the working directory.
+ *
+ * @param options - Discovery options
+ * @returns Absolute config file path, or undefined if none exists
+ */
+export const findGeneratorConfig = (
+  options: LoadGeneratorConfigOptions = {}
+): string | undefined => {
+  if (options.configPath) {
+    return resolve(options.configPath);
+  }
+
+  const searchDirs = [
+    ...(options.manifestPath ? [dirname(resolve(options.manifestPath))] : []),
+    resolve(options.cwd ?? process.cwd()),
+  ];
+
+  for (const dir of searchDirs) {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const candidate = resolve(dir, fileName);
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Loads, validates and flattens a cem-angular config file.
+ * JSON files are parsed directly; `.mjs` files must default-export the config.
+ *
+ * @param options - Discovery and target selection options
+ * @returns The loaded config, or undefined if no config file was found
+ */
+export const loadGeneratorConfig = async (
+  options: LoadGeneratorConfigOptions = {}
+): Promise<LoadedGeneratorConfig | undefined> => {
+  const configPath = findGeneratorConfig(options);
+  if (!configPath) {
+    return undefined;
+  }
+
+  if (!existsSync(configPath)) {
+    throw new Error(`Config file ${configPath} does not exist.`);
+  }
+
+  let config: unknown;
+  try {
+    config =
+      extname(configPath) === ".json"
+        ? JSON.parse(readFileSync(configPath, "utf-8"))
+        : (await importModule(configPath)).default;
+  } catch (error) {
+    throw new Error(
+      `Failed to load config file ${configPath}: ${(error as Error).message}`
+    );
+  }
+
+  const problems = validateOptions(config, "", true);
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid config file ${configPath}:\n${problems
+        .map((problem) => `  - ${problem}`)
+        .join("\n")}`
+    );
+  }
+
+  const { targets, ...shared } = config as GeneratorConfigFile;
+  let targetOptions: GeneratorConfigOptions = {};
+  if (options.target) {
+    if (!targets?.[options.target]) {
+      const available = Object.keys(targets ?? {});
+      throw new Error(
+        `Config file ${configPath} has no target "${options.target}"${
+          available.length ? ` (available: ${available.join(", ")})` : ""
+        }.`
+      );
+    }
+    targetOptions = targets[options.target];
+  }
+
+  return {
+    configPath,
+    target: options.target,
+    options: resolvePaths({ ...shared, ...targetOptions }, dirname(configPath)),
+  };
+};
+
+/**
+ * Merges programmatic options over the options of a discovered config file.
+ * Options explicitly passed as undefined do not clear config values.
+ *
+ * @param overrides - Programmatic options, taking precedence over the config
+ * @param options - Discovery and target selection options
+ * @returns Merged generator options
+ */
+export const resolveGeneratorOptions = async <T extends GeneratorConfigOptions>(
+  overrides: T,
+  options: LoadGeneratorConfigOptions = {}
+): Promise<GeneratorConfigOptions & T> => {
+  const loaded = await loadGeneratorConfig({
+    manifestPath: overrides.manifestPath,
+    cwd: overrides.cwd,
+    ...options,
+  });
+
+  const definedOverrides = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  ) as T;
+
+  return { ...loaded?.options, ...definedOverrides };
+};
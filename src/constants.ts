@@ -20,6 +20,35 @@ export const BUILT_IN_TYPE_TOKENS = new Set([
   "Error",
   "Symbol",
   "BigInt",
+  "ArrayLike",
+  "Iterable",
+  "IterableIterator",
+  "AsyncIterable",
+  "PromiseLike",
+  "ReadonlyMap",
+  "ReadonlySet",
+  "WeakMap",
+  "WeakSet",
+  "PropertyKey",
+
+  // TypeScript utility types
+  "Partial",
+  "Required",
+  "Readonly",
+  "Pick",
+  "Omit",
+  "Exclude",
+  "Extract",
+  "NonNullable",
+  "Parameters",
+  "ConstructorParameters",
+  "ReturnType",
+  "InstanceType",
+  "Awaited",
+  "Uppercase",
+  "Lowercase",
+  "Capitalize",
+  "Uncapitalize",
 
   // DOM Event types
   "Event",
@@ -205,3 +234,92 @@ export const BUILT_IN_TYPE_TOKENS = new Set([
   "SubtleCrypto",
   "CryptoKey",
 ]);
+
+/**
+ * Custom element and Lit lifecycle callbacks that are public on the element
+ * class but must not be forwarded by wrapper components.
+ */
+export const LIFECYCLE_METHOD_NAMES = new Set([
+  // Custom element callbacks
+  "connectedCallback",
+  "disconnectedCallback",
+  "adoptedCallback",
+  "attributeChangedCallback",
+  "formAssociatedCallback",
+  "formDisabledCallback",
+  "formResetCallback",
+  "formStateRestoreCallback",
+
+  // Lit reactive update cycle
+  "createRenderRoot",
+  "render",
+  "requestUpdate",
+  "performUpdate",
+  "scheduleUpdate",
+  "shouldUpdate",
+  "willUpdate",
+  "update",
+  "firstUpdated",
+  "updated",
+  "getUpdateComplete",
+
+  // Stencil lifecycle methods
+  "componentWillLoad",
+  "componentDidLoad",
+  "componentShouldUpdate",
+  "componentWillUpdate",
+  "componentDidUpdate",
+  "componentDidRender",
+  "componentWillRender",
+]);
+
+/**
+ * Naming templates used when the naming strategy leaves a name unset.
+ */
+export const DEFAULT_NAMING_TEMPLATES = {
+  selector: "{prefix}{name}",
+  className: "{Prefix}{Name}Component",
+  fileName: "{selector}.component.ts",
+  outputName: "{event}",
+};
+
+/**
+ * Members every generated wrapper class may declare, including Angular
+ * lifecycle methods, that component APIs must not shadow.
+ */
+export const WRAPPER_MEMBER_NAMES = [
+  "constructor",
+  "host",
+  "element",
+  "ngZone",
+  "destroyRef",
+  "teardownFns",
+  "syncInputs",
+  "setupEventListeners",
+  "addEventListener",
+  "setPropertyValue",
+  "setAttributeValue",
+  "ngOnChanges",
+  "ngOnInit",
+  "ngDoCheck",
+  "ngAfterContentInit",
+  "ngAfterContentChecked",
+  "ngAfterViewInit",
+  "ngAfterViewChecked",
+  "ngOnDestroy",
+];
+
+/**
+ * Config file names discovered next to the manifest or in the working
+ * directory, in order of preference.
+ */
+export const CONFIG_FILE_NAMES = [
+  "cem-angular.config.json",
+  "cem-angular.config.mjs",
+];
+
+/**
+ * File in a component directory recording the wrapper files generated there,
+ * so files named by custom naming rules are cleaned up once stale.
+ */
+export const GENERATED_FILES_RECORD = ".generated-files.json";
@@ -0,0 +1,245 @@
+/**
+ * A single line of a line-based diff.
+ */
+interface DiffLine {
+  /** " " for context, "-" for removed and "+" for added lines */
+  op: " " | "-" | "+";
+  text: string;
+  /** 1-based line number in the old text (context and removed lines) */
+  oldLine?: number;
+  /** 1-based line number in the new text (context and added lines) */
+  newLine?: number;
+}
+
+const splitLines = (content: string): string[] => {
+  if (content.length === 0) {
+    return [];
+  }
+  const lines = content.split("\n");
+  // A trailing newline does not start another line
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+};
+
+/**
+ * Computes the LCS lengths of a[aStart..aEnd) against every prefix of
+ * b[bStart..bEnd), or against every suffix when reversed, in one row.
+ */
+const lcsRow = (
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+  reversed: boolean
+): Uint32Array => {
+  const width = bEnd - bStart;
+  let previous = new Uint32Array(width + 1);
+  let current = new Uint32Array(width + 1);
+
+  for (let step = 0; step < aEnd - aStart; step++) {
+    const line = a[reversed ? aEnd - 1 - step : aStart + step];
+    for (let k = 0; k < width; k++) {
+      current[k + 1] =
+        line === b[reversed ? bEnd - 1 - k : bStart + k]
+          ? previous[k] + 1
+          : Math.max(previous[k + 1], current[k]);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous;
+};
+
+/**
+ * Aligns a[aStart..aEnd) with b[bStart..bEnd) along a longest common
+ * subsequence (Hirschberg), appending a "-", "+" or " " operation per line
+ * in order. Memory stays linear in the input size.
+ */
+const align = (
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+  ops: Array<DiffLine["op"]>
+): void => {
+  if (aStart === aEnd || bStart === bEnd) {
+    for (let i = aStart; i < aEnd; i++) ops.push("-");
+    for (let j = bStart; j < bEnd; j++) ops.push("+");
+    return;
+  }
+
+  if (aEnd - aStart === 1) {
+    const match = b.indexOf(a[aStart], bStart);
+    if (match === -1 || match >= bEnd) {
+      ops.push("-");
+      for (let j = bStart; j < bEnd; j++) ops.push("+");
+      return;
+    }
+    for (let j = bStart; j < match; j++) ops.push("+");
+    ops.push(" ");
+    for (let j = match + 1; j < bEnd; j++) ops.push("+");
+    return;
+  }
+
+  // Split a in half and b where the two halves' LCS lengths add up best
+  const middle = (aStart + aEnd) >> 1;
+  const forward = lcsRow(a, aStart, middle, b, bStart, bEnd, false);
+  const backward = lcsRow(a, middle, aEnd, b, bStart, bEnd, true);
+  const width = bEnd - bStart;
+  let split = 0;
+  let best = -1;
+  for (let k = 0; k <= width; k++) {
+    const length = forward[k] + backward[width - k];
+    if (length > best) {
+      best = length;
+      split = k;
+    }
+  }
+
+  align(a, aStart, middle, b, bStart, bStart + split, ops);
+  align(a, middle, aEnd, b, bStart + split, bEnd, ops);
+};
+
+/**
+ * Computes a line diff along the longest common subsequence of both texts.
+ * The common prefix and suffix are matched directly and only the lines in
+ * between are aligned.
+ */
+const diffLines = (oldLines: string[], newLines: string[]): DiffLine[] => {
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] ===
+      newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const ops: Array<DiffLine["op"]> = [];
+  for (let i = 0; i < prefix; i++) ops.push(" ");
+  align(
+    oldLines,
+    prefix,
+    oldLines.length - suffix,
+    newLines,
+    prefix,
+    newLines.length - suffix,
+    ops
+  );
+  for (let i = oldLines.length - suffix; i < oldLines.length; i++) {
+    ops.push(" ");
+  }
+
+  // Context lines advance both texts, removed and added lines one of them
+  const result: DiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const op of ops) {
+    if (op === " ") {
+      result.push({
+        op,
+        text: oldLines[oldIndex],
+        oldLine: oldIndex + 1,
+        newLine: newIndex + 1,
+      });
+      oldIndex++;
+      newIndex++;
+    } else if (op === "-") {
+      result.push({ op, text: oldLines[oldIndex], oldLine: oldIndex + 1 });
+      oldIndex++;
+    } else {
+      result.push({ op, text: newLines[newIndex], newLine: newIndex + 1 });
+      newIndex++;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Returns the last old/new line number before a diff position.
+ */
+const countBefore = (
+  lines: DiffLine[],
+  position: number,
+  key: "oldLine" | "newLine"
+): number => {
+  for (let index = position - 1; index >= 0; index--) {
+    const value = lines[index][key];
+    if (value !== undefined) {
+      return value;
+    }
+  }
+  return 0;
+};
+
+/**
+ * Creates a unified diff between two versions of a file.
+ *
+ * @param path - File path shown in the diff header
+ * @param oldContent - Current file content
+ * @param newContent - Generated file content
+ * @param context - Number of unchanged lines around each change
+ * @returns Unified diff text, or an empty string if the contents are equal
+ */
+export const createUnifiedDiff = (
+  path: string,
+  oldContent: string,
+  newContent: string,
+  context: number = 3
+): string => {
+  if (oldContent === newContent) {
+    return "";
+  }
+
+  const lines = diffLines(splitLines(oldContent), splitLines(newContent));
+  const changed = lines
+    .map((line, index) => (line.op === " " ? -1 : index))
+    .filter((index) => index >= 0);
+
+  // Group changes whose context windows touch into hunks
+  const hunks: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length - 1, index + context);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  const output = [`--- a/${path}`, `+++ b/${path}`];
+  for (const [start, end] of hunks) {
+    const hunk = lines.slice(start, end + 1);
+    const oldCount = hunk.filter((line) => line.op !== "+").length;
+    const newCount = hunk.filter((line) => line.op !== "-").length;
+
+    // Empty ranges point at the line before the hunk, as in GNU diff
+    const firstOld = hunk.find((line) => line.oldLine !== undefined)?.oldLine;
+    const firstNew = hunk.find((line) => line.newLine !== undefined)?.newLine;
+    const oldStart = oldCount === 0 ? countBefore(lines, start, "oldLine") : firstOld;
+    const newStart = newCount === 0 ? countBefore(lines, start, "newLine") : firstNew;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    hunk.forEach((line) => output.push(`${line.op}${line.text}`));
+  }
+
+  return `${output.join("\n")}\n`;
+};
@@ -2,12 +2,25 @@ import {
   existsSync,
   lstatSync,
   mkdirSync,
+  readdirSync,
+  readFileSync,
   readlinkSync,
   symlinkSync,
   unlinkSync,
   writeFileSync,
 } from "node:fs";
-import { dirname, resolve } from "node:path";
+import { dirname, isAbsolute, join, relative, resolve } from "node:path";
+
+import { GENERATED_FILES_RECORD } from "./constants";
+import { createUnifiedDiff } from "./diff";
+import type {
+  ComponentLibrary,
+  GeneratedFile,
+  GeneratedFileResult,
+  GenerationOutput,
+  GenerationPlan,
+  PlannedSymlink,
+} from "./types";
 
 /**
  * Ensures a symbolic link exists at the specified path pointing to the target.
@@ -47,86 +60,110 @@ export const ensureSymlink = (targetPath: string, linkPath: string): void => {
 };
 
 /**
- * Sets up symlinks for node_modules dependencies.
- * Links @angular, tslib, rxjs, and the component library into the wrappers' node_modules.
+ * Checks whether a symlink already points at the given target.
+ */
+const isSymlinkUpToDate = (targetPath: string, linkPath: string): boolean => {
+  try {
+    const stat = lstatSync(linkPath);
+    return (
+      stat.isSymbolicLink() &&
+      resolve(dirname(linkPath), readlinkSync(linkPath)) === targetPath
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+    return false;
+  }
+};
+
+/**
+ * Collects the symlinks for node_modules dependencies.
+ * Links @angular, tslib, rxjs, and the component libraries into the wrappers' node_modules.
  *
  * @param linkNodeModulesFrom - Root directory containing node_modules to link from
  * @param wrappersRoot - Root directory of the wrappers package
- * @param componentsRoot - Root directory of the component library
- * @param componentLibraryImport - Import name of the component library
+ * @param libraries - Component libraries with their root directories and import names
+ * @returns Symlinks that should exist in the wrappers package
  */
-export const setupNodeModulesSymlinks = (
+export const getNodeModulesSymlinks = (
   linkNodeModulesFrom: string | undefined,
   wrappersRoot: string,
-  componentsRoot: string,
-  componentLibraryImport: string
-): void => {
+  libraries: ComponentLibrary[]
+): PlannedSymlink[] => {
   if (!linkNodeModulesFrom) {
-    return;
+    return [];
   }
 
   const nodeModulesRoot = resolve(linkNodeModulesFrom, "node_modules");
   if (!existsSync(nodeModulesRoot)) {
-    return;
+    return [];
   }
 
+  const symlinks: PlannedSymlink[] = [];
+
   // Link @angular packages
   const angularTarget = resolve(nodeModulesRoot, "@angular");
   if (existsSync(angularTarget)) {
-    ensureSymlink(
-      angularTarget,
-      resolve(wrappersRoot, "node_modules/@angular")
-    );
+    symlinks.push({
+      target: angularTarget,
+      path: resolve(wrappersRoot, "node_modules/@angular"),
+    });
   }
 
   // Link tslib
   const tslibTarget = resolve(nodeModulesRoot, "tslib");
   if (existsSync(tslibTarget)) {
-    ensureSymlink(tslibTarget, resolve(wrappersRoot, "node_modules/tslib"));
+    symlinks.push({
+      target: tslibTarget,
+      path: resolve(wrappersRoot, "node_modules/tslib"),
+    });
   }
 
   // Link rxjs
   const rxjsTarget = resolve(nodeModulesRoot, "rxjs");
   if (existsSync(rxjsTarget)) {
-    ensureSymlink(rxjsTarget, resolve(wrappersRoot, "node_modules/rxjs"));
+    symlinks.push({
+      target: rxjsTarget,
+      path: resolve(wrappersRoot, "node_modules/rxjs"),
+    });
   }
 
-  // Link component library
-  if (existsSync(componentsRoot)) {
-    ensureSymlink(
-      componentsRoot,
-      resolve(wrappersRoot, `node_modules/${componentLibraryImport}`)
-    );
+  // Link component libraries
+  for (const library of libraries) {
+    if (existsSync(library.componentsRoot)) {
+      symlinks.push({
+        target: library.componentsRoot,
+        path: resolve(
+          wrappersRoot,
+          `node_modules/${library.componentLibraryImport}`
+        ),
+      });
+    }
   }
+
+  return symlinks;
 };
 
 /**
- * Creates or updates package.json for the Angular wrappers.
- * Only creates the file if it doesn't already exist.
+ * Builds the package.json content for the Angular wrappers.
  *
- * @param wrappersRoot - Root directory of the wrappers package
  * @param angularPackageName - NPM package name
  * @param angularPeerDependency - Angular version constraint
- * @param componentLibraryImport - Component library package name
- * @param componentLibraryVersion - Component library version
+ * @param libraries - Component libraries with their package names and versions
  * @param tslibVersion - tslib version
  * @param description - Package description
+ * @param usesForms - Whether wrappers depend on @angular/forms
+ * @returns Serialized package.json
  */
-export const setupPackageJson = (
-  wrappersRoot: string,
+export const buildPackageJsonContent = (
   angularPackageName: string,
   angularPeerDependency: string,
-  componentLibraryImport: string,
-  componentLibraryVersion: string,
+  libraries: ComponentLibrary[],
   tslibVersion: string,
-  description: string = "Auto-generated Angular bindings for web components."
-): void => {
-  const packageJsonPath = resolve(wrappersRoot, "package.json");
-
-  if (existsSync(packageJsonPath)) {
-    return;
-  }
-
+  description: string = "Auto-generated Angular bindings for web components.",
+  usesForms: boolean = false
+): string => {
   const pkg = {
     name: angularPackageName,
     version: "0.0.1",
@@ -135,33 +172,31 @@ export const setupPackageJson = (
     description,
     peerDependencies: {
       "@angular/core": angularPeerDependency,
-      [componentLibraryImport]: componentLibraryVersion,
+      ...(usesForms ? { "@angular/forms": angularPeerDependency } : {}),
+      ...Object.fromEntries(
+        libraries.map((library) => [
+          library.componentLibraryImport,
+          library.componentLibraryVersion,
+        ])
+      ),
     },
     dependencies: {
       tslib: tslibVersion,
     },
   };
 
-  writeFileSync(packageJsonPath, JSON.stringify(pkg, null, 2));
+  return JSON.stringify(pkg, null, 2);
 };
 
 /**
- * Creates or updates tsconfig.json for the Angular wrappers.
- * Only creates the file if it doesn't already exist.
+ * Builds the tsconfig.json content for the Angular wrappers.
  *
- * @param wrappersRoot - Root directory of the wrappers package
  * @param moduleType - TypeScript module type ("nodenext" or "ES2022")
+ * @returns Serialized tsconfig.json
  */
-export const setupTsConfig = (
-  wrappersRoot: string,
+export const buildTsConfigContent = (
   moduleType: "nodenext" | "ES2022" = "nodenext"
-): void => {
-  const tsconfigPath = resolve(wrappersRoot, "tsconfig.json");
-
-  if (existsSync(tsconfigPath)) {
-    return;
-  }
-
+): string => {
   const tsconfig = {
     compilerOptions: {
       declaration: true,
@@ -178,34 +213,222 @@ export const setupTsConfig = (
     include: ["src/**/*.ts"],
   };
 
-  writeFileSync(tsconfigPath, JSON.stringify(tsconfig, null, 2));
+  return JSON.stringify(tsconfig, null, 2);
 };
 
 /**
- * Sets up both package.json and tsconfig.json files.
- * Convenience function that calls setupPackageJson and setupTsConfig.
+ * Collects the package.json and tsconfig.json scaffolding files.
+ * Both are only created when missing so manual edits are preserved.
  */
-export const setupProjectFiles = (
+export const getProjectFiles = (
   wrappersRoot: string,
   angularPackageName: string,
   angularPeerDependency: string,
-  componentLibraryImport: string,
-  componentLibraryVersion: string,
+  libraries: ComponentLibrary[],
   tslibVersion: string,
   description?: string,
-  augmented?: boolean
-): void => {
-  setupPackageJson(
-    wrappersRoot,
-    angularPackageName,
-    angularPeerDependency,
-    componentLibraryImport,
-    componentLibraryVersion,
-    tslibVersion,
-    description
-  );
-
+  augmented?: boolean,
+  usesForms?: boolean
+): GeneratedFile[] => {
   // Augmented output uses different module configuration
   const moduleType = augmented ? "ES2022" : "nodenext";
-  setupTsConfig(wrappersRoot, moduleType as "ES2022" | "nodenext");
+
+  return [
+    {
+      path: resolve(wrappersRoot, "package.json"),
+      content: buildPackageJsonContent(
+        angularPackageName,
+        angularPeerDependency,
+        libraries,
+        tslibVersion,
+        description,
+        usesForms
+      ),
+      overwrite: false,
+    },
+    {
+      path: resolve(wrappersRoot, "tsconfig.json"),
+      content: buildTsConfigContent(moduleType),
+      overwrite: false,
+    },
+  ];
+};
+
+/**
+ * Reads the wrapper file names recorded by a previous run.
+ */
+const readGeneratedFilesRecord = (dir: string): string[] => {
+  const recordPath = join(dir, GENERATED_FILES_RECORD);
+  if (!existsSync(recordPath)) {
+    return [];
+  }
+
+  try {
+    const record = JSON.parse(readFileSync(recordPath, "utf-8"));
+    return Array.isArray(record?.files)
+      ? record.files.filter((name: unknown) => typeof name === "string")
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Creates the record of the wrapper files generated into a directory.
+ *
+ * @param dir - Directory holding the component wrapper files
+ * @param generatedFileNames - File names produced by the current run
+ * @returns The record file
+ */
+export const getGeneratedFilesRecord = (
+  dir: string,
+  generatedFileNames: Set<string>
+): GeneratedFile => ({
+  path: join(dir, GENERATED_FILES_RECORD),
+  content: `${JSON.stringify(
+    { files: Array.from(generatedFileNames).sort() },
+    null,
+    2
+  )}\n`,
+  overwrite: true,
+});
+
+/**
+ * Finds previously generated component files that are no longer produced:
+ * the files recorded by the previous run, and `.component.ts` files starting
+ * with one of the prefixes (for directories generated before the record).
+ *
+ * @param dir - Directory holding the component wrapper files
+ * @param generatedFileNames - File names produced by the current run
+ * @param prefixes - Unrecorded files starting with one of these are considered
+ * @returns Absolute paths of stale component files
+ */
+export const getStaleComponentFiles = (
+  dir: string,
+  generatedFileNames: Set<string>,
+  prefixes: string[] = [""]
+): string[] => {
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const recorded = readGeneratedFilesRecord(dir).filter((name) => {
+    const path = resolve(dir, name);
+    const fromDir = relative(dir, path);
+    return !fromDir.startsWith("..") && !isAbsolute(fromDir) && existsSync(path);
+  });
+  const matched = readdirSync(dir).filter(
+    (name) =>
+      name.endsWith(".component.ts") &&
+      prefixes.some((prefix) => name.startsWith(prefix))
+  );
+
+  return Array.from(new Set([...recorded, ...matched]))
+    .filter((name) => !generatedFileNames.has(name))
+    .sort()
+    .map((name) => join(dir, name));
+};
+
+/**
+ * Returns the path shown in diff headers: relative to the wrappers root for
+ * files inside it, otherwise relative to the working directory, with forward
+ * slashes.
+ */
+const getDiffPath = (path: string, wrappersRoot: string): string => {
+  const fromRoot = relative(wrappersRoot, path);
+  const shown =
+    fromRoot.startsWith("..") || isAbsolute(fromRoot)
+      ? relative(process.cwd(), path)
+      : fromRoot;
+  return shown.split("\\").join("/");
+};
+
+/**
+ * Compares the generation output with the files on disk.
+ * Only reads from disk; nothing is written.
+ *
+ * @param output - Files, deletions and symlinks produced by the generator
+ * @param wrappersRoot - Root directory of the wrappers package, which diff
+ *   headers are relative to
+ * @returns Plan of creations, modifications, deletions and symlinks
+ */
+export const planGeneration = (
+  output: GenerationOutput,
+  wrappersRoot: string
+): GenerationPlan => {
+  const plan: GenerationPlan = {
+    create: [],
+    modify: [],
+    unchanged: [],
+    delete: [],
+    symlinks: [],
+  };
+
+  for (const file of output.files) {
+    if (!existsSync(file.path)) {
+      plan.create.push({ path: file.path, content: file.content });
+      continue;
+    }
+
+    const existing = readFileSync(file.path, "utf-8");
+    if (!file.overwrite || existing === file.content) {
+      plan.unchanged.push({ path: file.path, content: existing });
+      continue;
+    }
+
+    plan.modify.push({
+      path: file.path,
+      content: file.content,
+      diff: createUnifiedDiff(
+        getDiffPath(file.path, wrappersRoot),
+        existing,
+        file.content
+      ),
+    });
+  }
+
+  plan.delete = output.deletions.filter((path) => existsSync(path));
+  plan.symlinks = output.symlinks.filter(
+    (symlink) => !isSymlinkUpToDate(symlink.target, symlink.path)
+  );
+
+  return plan;
+};
+
+/**
+ * Lists the outcome of a generation plan per file.
+ *
+ * @param plan - Plan returned by planGeneration
+ * @returns Status of every planned file, in plan order
+ */
+export const getFileStatuses = (
+  plan: GenerationPlan
+): GeneratedFileResult[] => [
+  ...plan.create.map((file) => ({ path: file.path, status: "created" as const })),
+  ...plan.modify.map((file) => ({ path: file.path, status: "updated" as const })),
+  ...plan.unchanged.map((file) => ({
+    path: file.path,
+    status: "unchanged" as const,
+  })),
+  ...plan.delete.map((path) => ({ path, status: "deleted" as const })),
+];
+
+/**
+ * Applies a generation plan to disk.
+ *
+ * @param plan - Plan produced by planGeneration
+ */
+export const applyGenerationPlan = (plan: GenerationPlan): void => {
+  for (const file of [...plan.create, ...plan.modify]) {
+    mkdirSync(dirname(file.path), { recursive: true });
+    writeFileSync(file.path, file.content);
+  }
+
+  for (const path of plan.delete) {
+    unlinkSync(path);
+  }
+
+  for (const symlink of plan.symlinks) {
+    ensureSymlink(symlink.target, symlink.path);
+  }
 };
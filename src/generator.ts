@@ -0,0 +1,750 @@
+import { spawnSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+
+import { parseManifest } from "./manifest-parser";
+import {
+  applyGenerationPlan,
+  getFileStatuses,
+  getGeneratedFilesRecord,
+  getNodeModulesSymlinks,
+  getProjectFiles,
+  getStaleComponentFiles,
+  planGeneration,
+} from "./file-system";
+import {
+  generateComponentFileContent,
+  generateDirectivesContent,
+  generateLitIndexContent,
+  getUsedTypeReferences,
+  generatePublicApiContent,
+  generateRegistrationContent,
+  generateWebComponentsModuleContent,
+  generateWrappersPublicApiContent,
+} from "./code-generation";
+import {
+  applyTypeFallback,
+  getUnresolvedTypeUsages,
+} from "./type-resolution";
+import { resolveNameCollisions } from "./naming";
+import {
+  discoverPackageManifests,
+  resolvePackageManifest,
+} from "./packages";
+import {
+  collectPluginFiles,
+  runAfterGenerate,
+  transformComponents,
+  transformComponentSource,
+  transformManifest,
+} from "./plugins";
+
+import type {
+  RunCemAnalyzeOptions,
+  GenerateAngularWrappersOptions,
+  GenerateAngularWrappersResult,
+  GenerateAngularWrappersFromCemOptions,
+  GenerateAngularWrappersFromPackageOptions,
+  AugmentAngularOutputOptions,
+  CheckAngularWrappersResult,
+  ComponentLibrary,
+  ComponentMeta,
+  GenerationOutput,
+  ManifestSource,
+  WrapperGeneration,
+} from "./types";
+
+/**
+ * Runs the Custom Elements Manifest (CEM) analyzer to generate a manifest file.
+ * Attempts to use npx first, falls back to pnpm exec if npx is not available.
+ *
+ * @param options - Configuration options for the analyzer
+ * @returns Path to the generated manifest, or undefined if skipped
+ */
+export const runCemAnalyze = (
+  options: RunCemAnalyzeOptions = {}
+): string | undefined => {
+  const {
+    cwd = process.cwd(),
+    outDir = "dist",
+    configPath = "custom-elements-manifest.config.mjs",
+    analyzerExecutable = "cem",
+    skip = process.env.STENCIL_SKIP_CEM === "true",
+    spawnOptions,
+  } = options;
+
+  if (skip) {
+    return undefined;
+  }
+
+  const manifestPath = resolve(cwd, outDir, "custom-elements.json");
+  const args = [
+    analyzerExecutable,
+    "analyze",
+    "--outdir",
+    outDir,
+    "--config",
+    configPath,
+  ];
+  const npxCommand = process.platform === "win32" ? "npx.cmd" : "npx";
+
+  const result = spawnSync(npxCommand, args, {
+    cwd,
+    stdio: "inherit",
+    ...spawnOptions,
+  });
+
+  /**
+   * Fallback to pnpm exec if npx fails.
+   */
+  const attemptFallback = () => {
+    const pnpmCommand = process.platform === "win32" ? "pnpm.cmd" : "pnpm";
+    const fallback = spawnSync(pnpmCommand, ["exec", ...args], {
+      cwd,
+      stdio: "inherit",
+      ...spawnOptions,
+    });
+
+    if (fallback.error) {
+      throw fallback.error;
+    }
+
+    if (fallback.status !== 0) {
+      throw new Error(
+        "Failed to generate custom-elements.json via `pnpm exec cem analyze`."
+      );
+    }
+  };
+
+  if (result.error) {
+    if ((result.error as NodeJS.ErrnoException).code === "ENOENT") {
+      attemptFallback();
+    } else {
+      throw result.error;
+    }
+  } else if (result.status !== 0) {
+    attemptFallback();
+  }
+
+  if (!existsSync(manifestPath)) {
+    throw new Error(
+      `Expected Custom Elements Manifest at ${manifestPath}, but it does not exist.`
+    );
+  }
+
+  return manifestPath;
+};
+
+/**
+ * Throws listing every component and member whose API uses an unresolved
+ * type without a replacement.
+ */
+const assertTypesResolved = (components: ComponentMeta[]): void => {
+  const problems = components.flatMap((component) =>
+    Array.from(getUnresolvedTypeUsages(component).entries()).map(
+      ([name, usedBy]) => `  - ${component.tagName}: ${name} (${usedBy.join(", ")})`
+    )
+  );
+  if (problems.length > 0) {
+    throw new Error(
+      `Unresolved types in wrapper APIs; export them from the component library or add them to typeReplacements:\n${problems.join(
+        "\n"
+      )}`
+    );
+  }
+};
+
+/**
+ * Collects the component packages wrappers are generated for: the manifest
+ * at manifestPath, the listed manifests and the packages discovered in
+ * node_modules. Package options left unset fall back to the top-level ones.
+ */
+const resolveComponentLibraries = (
+  options: GenerateAngularWrappersOptions
+): ComponentLibrary[] => {
+  const {
+    componentLibraryImport = "web-components",
+    componentLibraryVersion = "workspace:*",
+    wrapperSelectorPrefix = "wc-",
+  } = options;
+
+  const sources: ManifestSource[] = [
+    ...(options.manifestPath
+      ? [
+          {
+            manifestPath: options.manifestPath,
+            componentLibraryImport,
+            loaderImportPath:
+              options.loaderImportPath ?? "web-components/loader",
+            componentsRoot: options.componentsRoot,
+          },
+        ]
+      : []),
+    ...(options.manifests ?? []),
+  ];
+  if (options.manifestPackages?.length) {
+    const listed = new Set(
+      sources.map((source) => source.componentLibraryImport)
+    );
+    sources.push(
+      ...discoverPackageManifests(options.manifestPackages, options.cwd)
+        .filter((pkg) => !listed.has(pkg.packageName))
+        .map((pkg) => ({
+          manifestPath: pkg.manifestPath,
+          componentLibraryImport: pkg.packageName,
+          componentLibraryVersion: pkg.version && `^${pkg.version}`,
+          componentsRoot: pkg.packageDir,
+        }))
+    );
+  }
+
+  return sources.map((source) => ({
+    manifestPath: source.manifestPath,
+    componentsRoot:
+      source.componentsRoot ?? resolve(dirname(source.manifestPath), ".."),
+    componentLibraryImport: source.componentLibraryImport,
+    componentLibraryVersion:
+      source.componentLibraryVersion ?? componentLibraryVersion,
+    loaderImportPath:
+      source.loaderImportPath ?? `${source.componentLibraryImport}/loader`,
+    wrapperSelectorPrefix: source.wrapperSelectorPrefix ?? wrapperSelectorPrefix,
+    typeImportPaths: source.typeImportPaths ?? options.typeImportPaths,
+    elementImportPaths: source.elementImportPaths ?? options.elementImportPaths,
+  }));
+};
+
+/**
+ * Runs the generation pipeline in memory, producing every file the wrappers
+ * package should contain without touching disk.
+ */
+const buildGeneration = (
+  options: GenerateAngularWrappersOptions
+): WrapperGeneration => {
+  const {
+    angularPackageName = "@experiment/angular-wrappers",
+    componentLibraryImport = "web-components",
+    registration = "loader",
+    linkNodeModulesFrom,
+    angularPeerDependency = "^20.0.0",
+    tslibVersion = "^2.3.0",
+    augmentAngularOutput = false,
+    standalone = true,
+    signals = false,
+    formControls = false,
+    referenceManifests,
+    slotDirectives = false,
+    cssVars = false,
+    unresolvedTypeFallback = "import",
+    strictTypes = false,
+    plugins = [],
+  } = options;
+
+  if (!["import", "unknown", "any"].includes(unresolvedTypeFallback)) {
+    throw new Error(
+      `Invalid unresolvedTypeFallback "${unresolvedTypeFallback}"; expected "import", "unknown" or "any".`
+    );
+  }
+  if (!["loader", "lazy", "import", "scoped"].includes(registration)) {
+    throw new Error(
+      `Invalid registration "${registration}"; expected "loader", "lazy", "import" or "scoped".`
+    );
+  }
+  const unnamedPlugin = plugins.findIndex(
+    (plugin) => typeof plugin?.name !== "string" || !plugin.name
+  );
+  if (unnamedPlugin !== -1) {
+    throw new Error(`Plugin at index ${unnamedPlugin} needs a name.`);
+  }
+
+  const libraries = resolveComponentLibraries(options);
+  if (libraries.length === 0) {
+    throw new Error(
+      "generateAngularWrappers requires a manifestPath, manifests or manifestPackages."
+    );
+  }
+  const manifestPath = libraries[0].manifestPath;
+  const loaderImportPaths = Array.from(
+    new Set(libraries.map((library) => library.loaderImportPath))
+  );
+
+  // Determine output directories; next to the first listed library, or in
+  // cwd when every library was discovered in node_modules
+  const componentsRoot = libraries[0].componentsRoot;
+  const wrappersRoot =
+    options.wrappersRoot ??
+    (options.manifestPath || options.manifests?.length
+      ? resolve(componentsRoot, "../angular-wrappers")
+      : resolve(options.cwd ?? process.cwd(), "angular-wrappers"));
+
+  const wrappersSrcRoot = join(wrappersRoot, "src");
+  const wrappersLibDir = join(wrappersSrcRoot, "lib");
+  const pluginContext = { options, wrappersRoot };
+
+  // Parse the manifests to extract component metadata, let plugins transform
+  // it, apply the type fallback policy (strict mode reports unresolved types
+  // instead of widening) and resolve naming collisions. Every manifest is a
+  // reference manifest of the others, so types and superclasses from a
+  // sibling package are imported from that package. Components keep the
+  // order of the libraries they come from.
+  const parsedComponents = libraries.flatMap((library) =>
+    parseManifest(library.manifestPath, library.wrapperSelectorPrefix, {
+      formControls,
+      referenceManifests: {
+        ...Object.fromEntries(
+          libraries
+            .filter((other) => other !== library)
+            .map((other) => [other.componentLibraryImport, other.manifestPath])
+        ),
+        ...referenceManifests,
+      },
+      typeImportPaths: library.typeImportPaths,
+      elementImportPaths: library.elementImportPaths,
+      naming: options.naming,
+      transformManifest: (manifest) =>
+        transformManifest(plugins, manifest, pluginContext),
+    }).map((component) => ({
+      ...component,
+      componentLibraryImport: library.componentLibraryImport,
+    }))
+  );
+  const components = resolveNameCollisions(
+    transformComponents(plugins, parsedComponents, pluginContext).map(
+      (component) =>
+        applyTypeFallback(
+          component,
+          options.typeReplacements,
+          strictTypes ? "import" : unresolvedTypeFallback
+        )
+    ),
+    options.naming?.onCollision,
+    cssVars
+  );
+  if (strictTypes) {
+    assertTypesResolved(components);
+  }
+  const usesForms = components.some((component) => component.formControl);
+
+  // Handle augmented output (separate structure for Lit components)
+  const output = augmentAngularOutput
+    ? generateAngularOutputAugmentation({
+        components,
+        libraries,
+        wrappersRoot,
+        registration,
+        linkNodeModulesFrom,
+        angularPackageName,
+        angularPeerDependency,
+        tslibVersion,
+        standalone,
+        signals,
+        slotDirectives,
+        cssVars,
+        usesForms,
+        plugins,
+        pluginContext,
+        templates: options.templates,
+      })
+    : {
+        // Setup project configuration files
+        files: getProjectFiles(
+          wrappersRoot,
+          angularPackageName,
+          angularPeerDependency,
+          libraries,
+          tslibVersion,
+          "Auto-generated Angular bindings for the Stencil + Lit web components.",
+          false, // not augmented
+          usesForms
+        ),
+        deletions: [] as string[],
+        // Setup node_modules symlinks for dependencies
+        symlinks: getNodeModulesSymlinks(
+          linkNodeModulesFrom,
+          wrappersRoot,
+          libraries
+        ),
+      };
+
+  if (!augmentAngularOutput) {
+    // Generate component wrapper files
+    const generatedFiles = new Set<string>();
+    for (const component of components) {
+      generatedFiles.add(component.fileName);
+      output.files.push({
+        path: join(wrappersLibDir, component.fileName),
+        content: transformComponentSource(
+          plugins,
+          generateComponentFileContent(
+            component,
+            componentLibraryImport,
+            standalone,
+            signals,
+            slotDirectives,
+            cssVars,
+            registration,
+            options.templates?.componentFile
+          ),
+          component,
+          pluginContext
+        ),
+        overwrite: true,
+      });
+    }
+
+    // Clean up old component files that are no longer in the manifests
+    const prefixes = new Set(
+      libraries.map((library) => library.wrapperSelectorPrefix)
+    );
+    output.deletions.push(
+      ...getStaleComponentFiles(
+        wrappersLibDir,
+        generatedFiles,
+        Array.from(prefixes)
+      )
+    );
+    output.files.push(getGeneratedFilesRecord(wrappersLibDir, generatedFiles));
+
+    // Generate registration file for web components
+    output.files.push({
+      path: join(wrappersSrcRoot, "register-stencil-components.ts"),
+      content: generateRegistrationContent(
+        components,
+        componentLibraryImport,
+        loaderImportPaths,
+        "registerStencilComponents",
+        registration,
+        options.templates?.registration
+      ),
+      overwrite: true,
+    });
+
+    // Generate public API barrel file
+    output.files.push({
+      path: join(wrappersSrcRoot, "public-api.ts"),
+      content: generateWrappersPublicApiContent(
+        components,
+        slotDirectives,
+        options.templates?.publicApi
+      ),
+      overwrite: true,
+    });
+  }
+
+  // Add plugin files; stale file cleanup must not remove them
+  const pluginFiles = collectPluginFiles(plugins, components, pluginContext);
+  const pluginPaths = new Set(pluginFiles.map((file) => file.path));
+  output.files.push(...pluginFiles);
+  output.deletions = output.deletions.filter((path) => !pluginPaths.has(path));
+
+  return {
+    components,
+    wrappersRoot,
+    manifestPath,
+    output,
+  };
+};
+
+/**
+ * Generates the wrappers in memory and plans them against disk without
+ * writing anything or running afterGenerate hooks. Watch mode applies the
+ * plan itself once it knows a component changed.
+ *
+ * @param options - Configuration options for wrapper generation
+ * @returns Result containing component metadata, paths and the plan
+ */
+export const planAngularWrappers = (
+  options: GenerateAngularWrappersOptions
+): GenerateAngularWrappersResult => {
+  const { components, wrappersRoot, manifestPath, output } =
+    buildGeneration(options);
+  const plan = planGeneration(output, wrappersRoot);
+
+  return {
+    components,
+    wrappersRoot,
+    manifestPath,
+    plan,
+    files: getFileStatuses(plan),
+    unresolvedTypes: components.flatMap((component) => [
+      ...getUsedTypeReferences(component)
+        .filter((reference) => reference.unresolved)
+        .map((reference) => ({
+          tagName: component.tagName,
+          name: reference.name,
+        })),
+      ...component.typeFallbacks
+        .filter((fallback) => fallback.widened)
+        .map((fallback) => ({
+          tagName: component.tagName,
+          name: fallback.name,
+          widenedTo: fallback.replacement,
+        })),
+    ]),
+  };
+};
+
+/**
+ * Generates Angular wrapper components from a Custom Elements Manifest.
+ * Creates component files, configuration files, and exports.
+ *
+ * @param options - Configuration options for wrapper generation
+ * @returns Result containing component metadata and paths
+ */
+export const generateAngularWrappers = (
+  options: GenerateAngularWrappersOptions
+): GenerateAngularWrappersResult => {
+  const result = planAngularWrappers(options);
+
+  // Apply the plan unless this is a dry run
+  if (!options.dryRun) {
+    applyGenerationPlan(result.plan);
+  }
+
+  runAfterGenerate(options.plugins ?? [], result, {
+    options,
+    wrappersRoot: result.wrappersRoot,
+  });
+  return result;
+};
+
+/**
+ * Checks whether the generated wrappers on disk match the manifest.
+ * Only files the generator owns (component files, barrels and registration
+ * files) are compared; project scaffolding is created once and left alone.
+ *
+ * @param options - The options the wrappers are normally generated with
+ * @returns Missing, stale and orphaned files; `upToDate` is false if any exist
+ */
+export const checkAngularWrappers = (
+  options: GenerateAngularWrappersOptions
+): CheckAngularWrappersResult => {
+  const { components, wrappersRoot, manifestPath, output } =
+    buildGeneration(options);
+
+  const plan = planGeneration(
+    {
+      files: output.files.filter((file) => file.overwrite),
+      deletions: output.deletions,
+      symlinks: [],
+    },
+    wrappersRoot
+  );
+
+  return {
+    components,
+    wrappersRoot,
+    manifestPath,
+    upToDate:
+      plan.create.length === 0 &&
+      plan.modify.length === 0 &&
+      plan.delete.length === 0,
+    missing: plan.create.map((file) => file.path),
+    stale: plan.modify,
+    orphaned: plan.delete,
+  };
+};
+
+/**
+ * Generates Angular output with augmented structure (for Lit components).
+ * Creates a more complex directory structure with separate lit/ directory.
+ */
+const generateAngularOutputAugmentation = (
+  options: AugmentAngularOutputOptions
+): GenerationOutput => {
+  const {
+    components,
+    libraries,
+    wrappersRoot,
+    standalone,
+    signals,
+    slotDirectives,
+    cssVars,
+    plugins,
+    pluginContext,
+  } = options;
+  const wrappersSrcRoot = join(wrappersRoot, "src");
+  const libDir = join(wrappersSrcRoot, "lib");
+  const litDir = join(libDir, "lit");
+  const { componentLibraryImport } = libraries[0];
+
+  const output: GenerationOutput = {
+    // Setup project configuration files
+    files: getProjectFiles(
+      wrappersRoot,
+      options.angularPackageName,
+      options.angularPeerDependency,
+      libraries,
+      options.tslibVersion,
+      "Angular bindings for Stencil and Lit web components.",
+      true, // augmented
+      options.usesForms
+    ),
+    deletions: [],
+    // Setup node_modules symlinks
+    symlinks: getNodeModulesSymlinks(
+      options.linkNodeModulesFrom,
+      wrappersRoot,
+      libraries
+    ),
+  };
+
+  // Generate component wrappers in lit/ directory
+  const generatedFiles = new Set<string>();
+  for (const component of components) {
+    generatedFiles.add(component.fileName);
+    output.files.push({
+      path: join(litDir, component.fileName),
+      content: transformComponentSource(
+        plugins,
+        generateComponentFileContent(
+          component,
+          componentLibraryImport,
+          standalone,
+          signals,
+          slotDirectives,
+          cssVars,
+          options.registration,
+          options.templates?.componentFile
+        ),
+        component,
+        pluginContext
+      ),
+      overwrite: true,
+    });
+  }
+
+  // Clean up old component files
+  output.deletions.push(...getStaleComponentFiles(litDir, generatedFiles));
+  output.files.push(getGeneratedFilesRecord(litDir, generatedFiles));
+
+  // Generate lit/index.ts
+  output.files.push({
+    path: join(litDir, "index.ts"),
+    content: generateLitIndexContent(
+      components,
+      slotDirectives,
+      options.templates?.publicApi
+    ),
+    overwrite: true,
+  });
+
+  // Generate registration, directives and NgModule files
+  output.files.push(
+    {
+      path: join(libDir, "register-web-components.ts"),
+      content: generateRegistrationContent(
+        components,
+        componentLibraryImport,
+        Array.from(
+          new Set(libraries.map((library) => library.loaderImportPath))
+        ),
+        "registerWebComponents",
+        options.registration,
+        options.templates?.registration
+      ),
+      overwrite: true,
+    },
+    {
+      path: join(libDir, "directives.ts"),
+      content: generateDirectivesContent(),
+      overwrite: true,
+    },
+    {
+      path: join(libDir, "web-components.module.ts"),
+      content: generateWebComponentsModuleContent(standalone),
+      overwrite: true,
+    }
+  );
+
+  // Generate public-api.ts
+  output.files.push({
+    path: join(wrappersSrcRoot, "public-api.ts"),
+    content: generatePublicApiContent(),
+    overwrite: true,
+  });
+
+  return output;
+};
+
+/**
+ * Convenience function that runs CEM analysis and generates Angular wrappers.
+ * Combines runCemAnalyze and generateAngularWrappers into a single call.
+ *
+ * @param options - Combined options for both analysis and generation
+ * @returns Result containing component metadata and paths, or undefined if skipped
+ */
+export const generateAngularWrappersFromCem = (
+  options: GenerateAngularWrappersFromCemOptions = {}
+): GenerateAngularWrappersResult | undefined => {
+  const manifestPath = runCemAnalyze(options);
+
+  if (!manifestPath) {
+    return undefined;
+  }
+
+  return generateAngularWrappers({
+    manifestPath,
+    manifests: options.manifests,
+    manifestPackages: options.manifestPackages,
+    cwd: options.cwd,
+    wrappersRoot: options.wrappersRoot,
+    componentsRoot: options.componentsRoot,
+    angularPackageName: options.angularPackageName,
+    componentLibraryImport: options.componentLibraryImport,
+    componentLibraryVersion: options.componentLibraryVersion,
+    loaderImportPath: options.loaderImportPath,
+    registration: options.registration,
+    elementImportPaths: options.elementImportPaths,
+    wrapperSelectorPrefix: options.wrapperSelectorPrefix,
+    naming: options.naming,
+    linkNodeModulesFrom: options.linkNodeModulesFrom,
+    angularPeerDependency: options.angularPeerDependency,
+    tslibVersion: options.tslibVersion,
+    augmentAngularOutput: options.augmentAngularOutput,
+    standalone: options.standalone,
+    signals: options.signals,
+    formControls: options.formControls,
+    referenceManifests: options.referenceManifests,
+    slotDirectives: options.slotDirectives,
+    cssVars: options.cssVars,
+    typeImportPaths: options.typeImportPaths,
+    typeReplacements: options.typeReplacements,
+    unresolvedTypeFallback: options.unresolvedTypeFallback,
+    strictTypes: options.strictTypes,
+    plugins: options.plugins,
+    templates: options.templates,
+    dryRun: options.dryRun,
+  });
+};
+
+/**
+ * Generates Angular wrappers for an installed component package, such as a
+ * third-party library that ships its manifest. The package is resolved from
+ * node_modules and its manifest read from the `customElements` field of its
+ * package.json. The import path defaults to the package name, the version
+ * range to the installed version and the wrappers are generated into
+ * `<cwd>/angular-wrappers`.
+ *
+ * @param options - Package name and generation options
+ * @returns Result containing component metadata and paths
+ */
+export const generateAngularWrappersFromPackage = (
+  options: GenerateAngularWrappersFromPackageOptions
+): GenerateAngularWrappersResult => {
+  const { packageName, ...generatorOptions } = options;
+  const cwd = options.cwd ?? process.cwd();
+  const pkg = resolvePackageManifest(packageName, cwd);
+
+  return generateAngularWrappers({
+    ...generatorOptions,
+    manifestPath: pkg.manifestPath,
+    componentsRoot: options.componentsRoot ?? pkg.packageDir,
+    wrappersRoot: options.wrappersRoot ?? resolve(cwd, "angular-wrappers"),
+    componentLibraryImport: options.componentLibraryImport ?? pkg.packageName,
+    componentLibraryVersion:
+      options.componentLibraryVersion ??
+      (pkg.version ? `^${pkg.version}` : undefined),
+    loaderImportPath:
+      options.loaderImportPath ?? `${pkg.packageName}/loader`,
+  });
+};
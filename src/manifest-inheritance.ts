@@ -0,0 +1,249 @@
+import type { ManifestReference } from "./types";
+
+/**
+ * A manifest loaded for inheritance resolution.
+ */
+export interface LoadedManifest {
+  /** Package the manifest belongs to (undefined for the primary manifest) */
+  packageName?: string;
+  /** Parsed custom-elements.json content */
+  manifest: any;
+}
+
+/**
+ * A declaration together with the module and package it was found in.
+ */
+interface IndexedDeclaration {
+  declaration: any;
+  modulePath?: string;
+  packageName?: string;
+}
+
+/**
+ * Lookup table of class and mixin declarations across loaded manifests.
+ */
+export interface DeclarationIndex {
+  /** Declarations keyed by package, normalized module path and name */
+  byModule: Map<string, IndexedDeclaration>;
+  /** Declarations keyed by package and name, for references without a module */
+  byName: Map<string, IndexedDeclaration>;
+}
+
+/**
+ * A manifest entry (member, attribute, slot, event, CSS property or part)
+ * paired with the declaration it was inherited from.
+ */
+export interface InheritedEntry {
+  /** Raw manifest entry */
+  value: any;
+  /** Declaration the entry came from; undefined for own entries */
+  inheritedFrom?: ManifestReference;
+}
+
+/**
+ * Declaration fields holding named entries that are inherited.
+ */
+const INHERITED_COLLECTIONS = [
+  "members",
+  "attributes",
+  "slots",
+  "events",
+  "cssProperties",
+  "cssParts",
+] as const;
+
+type InheritedCollection = (typeof INHERITED_COLLECTIONS)[number];
+
+/**
+ * Entries of a declaration after walking its superclass and mixins.
+ */
+export type ResolvedDeclaration = Record<
+  InheritedCollection,
+  InheritedEntry[]
+> & {
+  formAssociated: boolean;
+};
+
+/**
+ * Normalizes a module path so "./src/a.js", "/src/a.js" and "src/a.js" match.
+ */
+export const normalizeModulePath = (modulePath: string): string =>
+  modulePath.replace(/^\.?\//, "");
+
+const moduleKey = (
+  packageName: string | undefined,
+  modulePath: string,
+  name: string
+) => `${packageName ?? ""}::${normalizeModulePath(modulePath)}::${name}`;
+
+const nameKey = (packageName: string | undefined, name: string) =>
+  `${packageName ?? ""}::${name}`;
+
+/**
+ * Indexes every class and mixin declaration of the given manifests.
+ * When several declarations share a name, the first one wins the by-name slot.
+ *
+ * @param manifests - Primary manifest and any reference manifests
+ * @returns Declaration index used to resolve superclass and mixin references
+ */
+export const createDeclarationIndex = (
+  manifests: LoadedManifest[]
+): DeclarationIndex => {
+  const index: DeclarationIndex = { byModule: new Map(), byName: new Map() };
+
+  for (const { packageName, manifest } of manifests) {
+    const modules = Array.isArray(manifest?.modules) ? manifest.modules : [];
+    for (const mod of modules) {
+      if (!Array.isArray(mod?.declarations)) continue;
+
+      for (const declaration of mod.declarations) {
+        if (!declaration?.name) continue;
+        if (declaration.kind !== "class" && declaration.kind !== "mixin") {
+          continue;
+        }
+
+        const entry: IndexedDeclaration = {
+          declaration,
+          modulePath: mod.path,
+          packageName,
+        };
+        if (typeof mod.path === "string") {
+          index.byModule.set(
+            moduleKey(packageName, mod.path, declaration.name),
+            entry
+          );
+        }
+        const key = nameKey(packageName, declaration.name);
+        if (!index.byName.has(key)) {
+          index.byName.set(key, entry);
+        }
+      }
+    }
+  }
+
+  return index;
+};
+
+/**
+ * Looks up the declaration a superclass or mixin reference points to.
+ * References without a `package` are resolved in the referencing package.
+ */
+const lookupReference = (
+  reference: any,
+  currentPackage: string | undefined,
+  index: DeclarationIndex
+): IndexedDeclaration | undefined => {
+  if (!reference?.name) {
+    return undefined;
+  }
+
+  const packageName = (reference.package as string | undefined) ?? currentPackage;
+  if (typeof reference.module === "string") {
+    const match = index.byModule.get(
+      moduleKey(packageName, reference.module, reference.name)
+    );
+    if (match) {
+      return match;
+    }
+  }
+
+  return index.byName.get(nameKey(packageName, reference.name));
+};
+
+/**
+ * Creates an empty resolution result.
+ */
+const createResolved = (formAssociated: boolean): ResolvedDeclaration => ({
+  members: [],
+  attributes: [],
+  slots: [],
+  events: [],
+  cssProperties: [],
+  cssParts: [],
+  formAssociated,
+});
+
+/**
+ * Resolves the members, attributes, slots, events, CSS properties and CSS
+ * parts of a declaration including everything it inherits. Precedence follows
+ * the prototype chain: own entries override mixins, earlier mixins override
+ * later ones, and mixins override the superclass. Entries already carrying an
+ * `inheritedFrom` (manifests produced with inheritance applied) keep their
+ * recorded origin.
+ *
+ * @param declaration - Class declaration from the manifest
+ * @param packageName - Package of the manifest the declaration belongs to
+ * @param index - Declaration index of all loaded manifests
+ * @returns Merged entries with their origin
+ */
+export const resolveInheritance = (
+  declaration: any,
+  packageName: string | undefined,
+  index: DeclarationIndex
+): ResolvedDeclaration => {
+  const visit = (
+    current: any,
+    currentPackage: string | undefined,
+    origin: ManifestReference | undefined,
+    seen: Set<any>
+  ): ResolvedDeclaration => {
+    const resolved = createResolved(current.formAssociated === true);
+    // Only declarations on the current path are cycles; a mixin reached
+    // through several branches is resolved in each of them
+    if (seen.has(current)) {
+      return resolved;
+    }
+    seen.add(current);
+
+    // Walk from the lowest precedence (superclass) up to the declaration itself
+    const parents = [
+      current.superclass,
+      ...(Array.isArray(current.mixins) ? [...current.mixins].reverse() : []),
+    ];
+    const layers: ResolvedDeclaration[] = [];
+    for (const reference of parents) {
+      const match = lookupReference(reference, currentPackage, index);
+      if (!match) continue;
+
+      layers.push(
+        visit(
+          match.declaration,
+          match.packageName,
+          {
+            name: match.declaration.name,
+            module: match.modulePath,
+            package: match.packageName,
+          },
+          seen
+        )
+      );
+    }
+    seen.delete(current);
+
+    const own = (entries: unknown): InheritedEntry[] =>
+      Array.isArray(entries)
+        ? entries.map((value) => ({
+            value,
+            inheritedFrom: value?.inheritedFrom ?? origin,
+          }))
+        : [];
+    const ownLayer = createResolved(current.formAssociated === true);
+    INHERITED_COLLECTIONS.forEach((key) => {
+      ownLayer[key] = own(current[key]);
+    });
+    layers.push(ownLayer);
+
+    for (const key of INHERITED_COLLECTIONS) {
+      const entries = new Map<string, InheritedEntry>();
+      for (const layer of layers) {
+        layer[key].forEach((entry) => entries.set(entry.value?.name, entry));
+      }
+      resolved[key] = Array.from(entries.values());
+    }
+    resolved.formAssociated ||= layers.some((layer) => layer.formAssociated);
+
+    return resolved;
+  };
+
+  return visit(declaration, packageName, undefined, new Set());
+};
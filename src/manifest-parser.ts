@@ -1,6 +1,67 @@
 import { readFileSync } from "node:fs";
-import type { ComponentMeta, ComponentMember, ComponentEvent } from "./types";
-import { toPascalCase, toIdentifier } from "./code-generation";
+import type {
+  ComponentAttribute,
+  ComponentCssPart,
+  ComponentCssProperty,
+  ComponentMeta,
+  ComponentMember,
+  ComponentEvent,
+  ComponentFormControl,
+  ComponentMethod,
+  ComponentSlot,
+  ComponentTypeReference,
+  FormControlOptions,
+  ParseManifestOptions,
+} from "./types";
+import { LIFECYCLE_METHOD_NAMES } from "./constants";
+import {
+  createDeclarationIndex,
+  normalizeModulePath,
+  resolveInheritance,
+} from "./manifest-inheritance";
+import type {
+  DeclarationIndex,
+  ResolvedDeclaration,
+} from "./manifest-inheritance";
+import { resolveComponentNames, resolveOutputName } from "./naming";
+import { toPascalCase } from "./code-generation";
+import {
+  createTypeDeclarationIndex,
+  getTypeImportPath,
+  resolveTypeReferences,
+} from "./type-resolution";
+import type {
+  ManifestTypeSource,
+  TypeDeclarationIndex,
+} from "./type-resolution";
+
+/**
+ * Checks the name, privacy and modifiers of a manifest member.
+ * Rejects #private names and private/protected members.
+ */
+const hasPublicVisibility = (member: any): boolean => {
+  const name = member.name as string | undefined;
+  // Exclude private fields (starting with #)
+  if (!name || name.startsWith("#")) {
+    return false;
+  }
+
+  // Exclude explicitly private or protected members
+  const privacy = member.privacy as string | undefined;
+  if (privacy && privacy !== "public") {
+    return false;
+  }
+
+  // Check for private/protected modifiers
+  const modifiers = Array.isArray(member.modifiers)
+    ? (member.modifiers as string[])
+    : [];
+  if (modifiers.includes("private") || modifiers.includes("protected")) {
+    return false;
+  }
+
+  return true;
+};
 
 /**
  * Type guard to check if a manifest member represents a public field/property.
@@ -29,27 +90,423 @@ export const isPublicFieldLikeMember = (
     return false;
   }
 
-  const name = member.name as string | undefined;
-  // Exclude private fields (starting with #)
-  if (!name || name.startsWith("#")) {
+  return hasPublicVisibility(member);
+};
+
+/**
+ * Type guard to check if a manifest member represents a public instance method.
+ * Filters out static methods, lifecycle callbacks and non-public methods.
+ *
+ * @param member - Member from the manifest
+ * @returns True if this is a method that should be forwarded by the wrapper
+ */
+export const isPublicMethodMember = (
+  member: any
+): member is {
+  name: string;
+  kind: "method";
+  parameters?: Array<{
+    name: string;
+    type?: { text?: string };
+    optional?: boolean;
+    rest?: boolean;
+    description?: string;
+  }>;
+  return?: { type?: { text?: string }; description?: string };
+  description?: string;
+  static?: boolean;
+} => {
+  if (!member || typeof member !== "object" || member.kind !== "method") {
     return false;
   }
 
-  // Exclude explicitly private or protected members
-  const privacy = member.privacy as string | undefined;
-  if (privacy && privacy !== "public") {
+  if (member.static || LIFECYCLE_METHOD_NAMES.has(member.name)) {
     return false;
   }
 
-  // Check for private/protected modifiers
-  const modifiers = Array.isArray(member.modifiers)
-    ? (member.modifiers as string[])
-    : [];
-  if (modifiers.includes("private") || modifiers.includes("protected")) {
-    return false;
+  return hasPublicVisibility(member);
+};
+
+/**
+ * Resolves the form control binding for a component.
+ * Explicit per-tag mappings win; otherwise a component is treated as a form
+ * control when it has a `checked`/`value` member and is either marked
+ * `formAssociated` or fires a change/input event for that member.
+ *
+ * @param decl - Class declaration from the manifest
+ * @param members - Public members of the component
+ * @param events - Events of the component
+ * @param formControls - Form control generation settings
+ * @returns The form control binding, or undefined if not a form control
+ */
+export const resolveFormControl = (
+  decl: any,
+  members: ComponentMember[],
+  events: ComponentEvent[],
+  formControls: boolean | FormControlOptions = false
+): ComponentFormControl | undefined => {
+  if (!formControls) {
+    return undefined;
   }
 
-  return true;
+  const options: FormControlOptions =
+    formControls === true ? {} : formControls;
+  const tagName = decl.tagName as string;
+  const mapping = options.mappings?.[tagName];
+  const findMemberType = (name: string) =>
+    members.find((member) => member.name === name)?.type;
+
+  if (mapping === false) {
+    return undefined;
+  }
+
+  if (mapping) {
+    const valueProperty = mapping.valueProperty ?? "value";
+    return {
+      valueProperty,
+      valueType: findMemberType(valueProperty) ?? "any",
+      changeEvent: mapping.changeEvent ?? "change",
+      touchEvent: mapping.touchEvent ?? "blur",
+      disabledProperty: mapping.disabledProperty ?? "disabled",
+    };
+  }
+
+  if (options.detect === false) {
+    return undefined;
+  }
+
+  // Checkbox-like controls expose a boolean `checked` alongside `value`
+  const valueMember =
+    members.find(
+      (member) => member.name === "checked" && member.type === "boolean"
+    ) ?? members.find((member) => member.name === "value");
+  if (!valueMember) {
+    return undefined;
+  }
+
+  const eventNames = events.map((event) => event.eventName);
+  const changeEvent = [
+    "change",
+    "input",
+    `${valueMember.name}-change`,
+    `${valueMember.name}Change`,
+  ].find((name) => eventNames.includes(name));
+
+  const formAssociated =
+    decl.formAssociated === true ||
+    (Array.isArray(decl.members) &&
+      decl.members.some(
+        (member: any) => member?.name === "formAssociated" && member.static
+      ));
+
+  if (!changeEvent && !formAssociated) {
+    return undefined;
+  }
+
+  return {
+    valueProperty: valueMember.name,
+    valueType: valueMember.type,
+    changeEvent: changeEvent ?? "change",
+    touchEvent: "blur",
+    disabledProperty: "disabled",
+  };
+};
+
+/**
+ * A named export of a manifest module.
+ */
+interface ModuleExport {
+  /** Path of the exporting module */
+  modulePath: string;
+  /** Exported name, or the tag name of a custom-element-definition */
+  name: string;
+}
+
+/**
+ * Module exports that locate custom elements, keyed by the declaration they
+ * refer to (see declarationKey).
+ */
+interface ElementExportIndex {
+  /** `custom-element-definition` exports */
+  definitions: Map<string, ModuleExport[]>;
+  /** `js` exports, under which the element classes can be imported */
+  classes: Map<string, ModuleExport[]>;
+}
+
+const declarationKey = (modulePath: string, name: string) =>
+  `${normalizeModulePath(modulePath)}::${name}`;
+
+/**
+ * Indexes the `custom-element-definition` and `js` exports of the manifest's
+ * modules by the local declaration they refer to. Default exports and
+ * declarations of other packages are skipped.
+ */
+const indexElementExports = (modules: any[]): ElementExportIndex => {
+  const index: ElementExportIndex = {
+    definitions: new Map(),
+    classes: new Map(),
+  };
+  for (const mod of modules) {
+    if (typeof mod?.path !== "string" || !Array.isArray(mod.exports)) continue;
+    for (const exp of mod.exports) {
+      const declaration = exp?.declaration;
+      if (
+        typeof exp?.name !== "string" ||
+        exp.name === "default" ||
+        typeof declaration?.name !== "string" ||
+        declaration.package
+      ) {
+        continue;
+      }
+
+      const target =
+        exp.kind === "custom-element-definition"
+          ? index.definitions
+          : exp.kind === "js"
+            ? index.classes
+            : undefined;
+      const key = declarationKey(
+        (declaration.module as string | undefined) ?? mod.path,
+        declaration.name
+      );
+      target?.set(key, [
+        ...(target.get(key) ?? []),
+        { modulePath: mod.path, name: exp.name },
+      ]);
+    }
+  }
+  return index;
+};
+
+/**
+ * The API of a component class after inheritance is resolved. It does not
+ * depend on the tag, so it is shared by every tag the class is defined under.
+ */
+interface DeclarationApi {
+  resolved: ResolvedDeclaration;
+  attributes: ComponentAttribute[];
+  slots: ComponentSlot[];
+  cssProperties: ComponentCssProperty[];
+  cssParts: ComponentCssPart[];
+  members: ComponentMember[];
+  methods: ComponentMethod[];
+  typeReferences: ComponentTypeReference[];
+}
+
+/**
+ * Extracts the tag-independent API of a class declaration.
+ */
+const extractDeclarationApi = (
+  decl: any,
+  declarationIndex: DeclarationIndex,
+  typeDeclarations: TypeDeclarationIndex,
+  options: ParseManifestOptions
+): DeclarationApi => {
+  const resolved = resolveInheritance(decl, undefined, declarationIndex);
+  const memberEntries = resolved.members.filter((entry) =>
+    isPublicFieldLikeMember(entry.value)
+  );
+  const methodEntries = resolved.members.filter((entry) =>
+    isPublicMethodMember(entry.value)
+  );
+
+  // Extract attributes
+  const attributes: ComponentAttribute[] = resolved.attributes
+    .filter((entry) => typeof entry.value?.name === "string")
+    .map(({ value: attribute, inheritedFrom }) => ({
+      name: attribute.name as string,
+      fieldName: attribute.fieldName as string | undefined,
+      type: (attribute.type?.text as string) || "string",
+      description: attribute.description as string | undefined,
+      inheritedFrom,
+    }));
+
+  // Extract slots; the default slot has an empty name
+  const slots: ComponentSlot[] = resolved.slots
+    .filter((entry) => typeof entry.value?.name === "string")
+    .map(({ value: slot, inheritedFrom }) => ({
+      name: slot.name as string,
+      description: slot.description as string | undefined,
+      inheritedFrom,
+    }));
+
+  // Extract CSS custom properties and parts
+  const cssProperties: ComponentCssProperty[] = resolved.cssProperties
+    .filter((entry) => typeof entry.value?.name === "string")
+    .map(({ value: property, inheritedFrom }) => ({
+      name: property.name as string,
+      description: property.description as string | undefined,
+      syntax: property.syntax as string | undefined,
+      default: property.default as string | undefined,
+      inheritedFrom,
+    }));
+  const cssParts: ComponentCssPart[] = resolved.cssParts
+    .filter((entry) => typeof entry.value?.name === "string")
+    .map(({ value: part, inheritedFrom }) => ({
+      name: part.name as string,
+      description: part.description as string | undefined,
+      inheritedFrom,
+    }));
+
+  // Extract public members, linked to their attribute where known
+  const members: ComponentMember[] = memberEntries.map(
+    ({ value: member, inheritedFrom }) => ({
+      name: member.name,
+      type: (member.type?.text as string) || "any",
+      optional: (member.optional as boolean) ?? true,
+      description: member.description as string | undefined,
+      attribute:
+        (member.attribute as string | undefined) ??
+        attributes.find((attribute) => attribute.fieldName === member.name)
+          ?.name,
+      inheritedFrom,
+    })
+  );
+
+  // Extract public methods
+  const methods: ComponentMethod[] = methodEntries.map(
+    ({ value: method, inheritedFrom }) => ({
+      name: method.name,
+      parameters: ((method.parameters as any[]) ?? []).map((parameter) => ({
+        name: parameter.name as string,
+        type: (parameter.type?.text as string) || "any",
+        optional: (parameter.optional as boolean) ?? false,
+        rest: (parameter.rest as boolean) ?? false,
+        description: parameter.description as string | undefined,
+      })),
+      returnType: (method.return?.type?.text as string) || "void",
+      returnDescription: method.return?.description as string | undefined,
+      description: method.description as string | undefined,
+      inheritedFrom,
+    })
+  );
+
+  // Collect the manifest types of the API, keeping the package inherited
+  // entries come from so their references resolve there
+  const typeSources: ManifestTypeSource[] = [
+    ...memberEntries.map(({ value, inheritedFrom }) => ({
+      type: value.type,
+      packageName: inheritedFrom?.package,
+    })),
+    ...resolved.attributes.map(({ value, inheritedFrom }) => ({
+      type: value?.type,
+      packageName: inheritedFrom?.package,
+    })),
+    ...resolved.events.map(({ value, inheritedFrom }) => ({
+      type: value?.type,
+      packageName: inheritedFrom?.package,
+    })),
+    ...methodEntries.flatMap(({ value, inheritedFrom }) =>
+      [
+        ...((value.parameters as any[]) ?? []).map(
+          (parameter) => parameter?.type
+        ),
+        value.return?.type,
+      ].map((type) => ({ type, packageName: inheritedFrom?.package }))
+    ),
+  ];
+
+  return {
+    resolved,
+    attributes,
+    slots,
+    cssProperties,
+    cssParts,
+    members,
+    methods,
+    typeReferences: resolveTypeReferences(
+      typeSources,
+      typeDeclarations,
+      options.typeImportPaths
+    ),
+  };
+};
+
+/**
+ * Builds the metadata of a component from its class declaration's API and
+ * the tag it is defined under. Entries are copied, as plugins may change the
+ * metadata of one tag in place.
+ *
+ * @param decl - Class declaration from the manifest
+ * @param mod - Module declaring the class
+ * @param tagName - Tag the class is defined under
+ * @param api - API of the class (see extractDeclarationApi)
+ * @param classExport - Export the class is imported under
+ * @param definitionModule - Module defining the tag
+ * @param wrapperSelectorPrefix - Prefix for wrapper selectors
+ * @param options - Parsing options
+ * @returns Component metadata
+ */
+const buildComponentMeta = (
+  decl: any,
+  mod: any,
+  tagName: string,
+  api: DeclarationApi,
+  classExport: Partial<ModuleExport>,
+  definitionModule: string | undefined,
+  wrapperSelectorPrefix: string,
+  options: ParseManifestOptions
+): ComponentMeta => {
+  const { context, selector, className, fileName } = resolveComponentNames(
+    tagName,
+    wrapperSelectorPrefix,
+    options.naming
+  );
+
+  // Extract events
+  const events: ComponentEvent[] = api.resolved.events.map(
+    ({ value: event, inheritedFrom }) => ({
+      eventName: event.name as string,
+      outputName: resolveOutputName(
+        event.name as string,
+        context,
+        options.naming
+      ),
+      type: (event.type?.text as string) || "CustomEvent<any>",
+      description: event.description as string | undefined,
+      inheritedFrom,
+    })
+  );
+
+  return {
+    tagName,
+    selector,
+    className,
+    fileName,
+    sourceModule: mod.path as string | undefined,
+    elementClassName: classExport.name ?? toPascalCase(tagName),
+    elementModule: classExport.modulePath,
+    elementImportPath: getTypeImportPath(
+      { module: classExport.modulePath },
+      options.elementImportPaths
+    ),
+    definitionModule,
+    definitionImportPath: getTypeImportPath(
+      { module: definitionModule },
+      options.elementImportPaths
+    ),
+    description: decl.description as string | undefined,
+    members: api.members.map((member) => ({ ...member })),
+    attributes: api.attributes.map((attribute) => ({ ...attribute })),
+    slots: api.slots.map((slot) => ({ ...slot })),
+    cssProperties: api.cssProperties.map((property) => ({ ...property })),
+    cssParts: api.cssParts.map((part) => ({ ...part })),
+    events,
+    methods: api.methods.map((method) => ({ ...method })),
+    formControl: resolveFormControl(
+      {
+        ...decl,
+        tagName,
+        formAssociated: api.resolved.formAssociated,
+        members: api.resolved.members.map((entry) => entry.value),
+      },
+      api.members,
+      events,
+      options.formControls
+    ),
+    typeReferences: api.typeReferences.map((reference) => ({ ...reference })),
+    typeFallbacks: [],
+  };
 };
 
 /**
@@ -57,61 +514,82 @@ export const isPublicFieldLikeMember = (
  *
  * @param manifestPath - Path to the custom-elements.json file
  * @param wrapperSelectorPrefix - Prefix for wrapper selectors (e.g., "wc-")
+ * @param options - Additional parsing options
  * @returns Array of parsed component metadata
  */
 export const parseManifest = (
   manifestPath: string,
-  wrapperSelectorPrefix: string = "wc-"
+  wrapperSelectorPrefix: string = "wc-",
+  options: ParseManifestOptions = {}
 ): ComponentMeta[] => {
-  const manifest = JSON.parse(readFileSync(manifestPath, "utf-8"));
+  const parsed = JSON.parse(readFileSync(manifestPath, "utf-8"));
+  const manifest = options.transformManifest
+    ? options.transformManifest(parsed)
+    : parsed;
   const modules = Array.isArray(manifest?.modules) ? manifest.modules : [];
 
+  // Index the primary and reference manifests to resolve superclasses,
+  // mixins and the types used by component APIs
+  const loadedManifests = [
+    { manifest },
+    ...Object.entries(options.referenceManifests ?? {}).map(
+      ([packageName, referencePath]) => ({
+        packageName,
+        manifest: JSON.parse(readFileSync(referencePath, "utf-8")),
+      })
+    ),
+  ];
+  const declarationIndex = createDeclarationIndex(loadedManifests);
+  const typeDeclarations = createTypeDeclarationIndex(loadedManifests);
+  const elementExports = indexElementExports(modules);
+
   const components: ComponentMeta[] = [];
 
   for (const mod of modules) {
     if (!Array.isArray(mod?.declarations)) continue;
 
     for (const decl of mod.declarations) {
-      // Only process class declarations with a tagName
-      if (!decl || decl.kind !== "class" || !decl.tagName) continue;
-
-      const tagName = decl.tagName as string;
-      const selector = `${wrapperSelectorPrefix}${tagName}`;
-      const className = `Wc${toPascalCase(tagName)}Component`;
-      const fileName = `${selector}.component.ts`;
-
-      // Extract public members
-      const manifestMembers = Array.isArray(decl.members)
-        ? (decl.members as unknown[]).filter(isPublicFieldLikeMember)
-        : [];
-
-      const members: ComponentMember[] = manifestMembers.map((member) => ({
-        name: member.name,
-        type: (member.type?.text as string) || "any",
-        optional: (member.optional as boolean) ?? true,
-        description: member.description as string | undefined,
-      }));
-
-      // Extract events
-      const events: ComponentEvent[] = Array.isArray(decl.events)
-        ? decl.events.map((event: any) => ({
-            eventName: event.name as string,
-            outputName: toIdentifier(event.name as string),
-            type: (event.type?.text as string) || "CustomEvent<any>",
-            description: event.description as string | undefined,
-          }))
-        : [];
-
-      components.push({
-        tagName,
-        selector,
-        className,
-        fileName,
-        sourceModule: mod.path as string | undefined,
-        description: decl.description as string | undefined,
-        members,
-        events,
-      });
+      // Only process class declarations with a tagName or a definition export
+      if (!decl || decl.kind !== "class") continue;
+
+      const key = declarationKey(mod.path ?? "", decl.name);
+      const definitions = elementExports.definitions.get(key) ?? [];
+      const tagNames = decl.tagName
+        ? [decl.tagName as string]
+        : definitions.map((definition) => definition.name);
+      if (tagNames.length === 0) continue;
+
+      // The class is imported from its own module if exported there,
+      // otherwise from a module re-exporting it
+      const classExports = elementExports.classes.get(key) ?? [];
+      const classExport: Partial<ModuleExport> = classExports.find(
+        (exp) => exp.modulePath === mod.path
+      ) ??
+        classExports[0] ?? { modulePath: mod.path, name: decl.name };
+
+      const api = extractDeclarationApi(
+        decl,
+        declarationIndex,
+        typeDeclarations,
+        options
+      );
+      for (const tagName of tagNames) {
+        const definitionModule =
+          definitions.find((definition) => definition.name === tagName)
+            ?.modulePath ?? (mod.path as string | undefined);
+        components.push(
+          buildComponentMeta(
+            decl,
+            mod,
+            tagName,
+            api,
+            classExport,
+            definitionModule,
+            wrapperSelectorPrefix,
+            options
+          )
+        );
+      }
     }
   }
 
@@ -0,0 +1,356 @@
+import { DEFAULT_NAMING_TEMPLATES } from "./constants";
+import {
+  getAttributeInputs,
+  getWrapperMemberNames,
+  toIdentifier,
+  toPascalCase,
+} from "./code-generation";
+import type {
+  ComponentMeta,
+  NamingCollision,
+  NamingCollisionRule,
+  NamingContext,
+  NamingRule,
+  NamingStrategy,
+} from "./types";
+
+/**
+ * Fills the `{placeholder}`s of a naming template.
+ */
+const fillTemplate = (
+  template: string,
+  values: Record<string, string>
+): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+    if (!(key in values)) {
+      throw new Error(
+        `Unknown placeholder ${placeholder} in naming template "${template}" (available: ${Object.keys(
+          values
+        )
+          .map((name) => `{${name}}`)
+          .join(", ")}).`
+      );
+    }
+    return values[key];
+  });
+
+/**
+ * Applies a naming template or function to a naming context.
+ */
+const applyNamingRule = (
+  rule: NamingRule,
+  context: NamingContext
+): string =>
+  typeof rule === "function"
+    ? rule(context)
+    : fillTemplate(rule, {
+        tagName: context.tagName,
+        name: context.name,
+        Name: toPascalCase(context.name),
+        prefix: context.prefix,
+        Prefix: toPascalCase(context.prefix),
+        ...(context.selector !== undefined
+          ? { selector: context.selector }
+          : {}),
+      });
+
+/**
+ * Derives the selector, class name and file name of a wrapper from its tag.
+ * With the default strategy `my-button` and the prefix `acme-` become
+ * `acme-my-button`, `AcmeMyButtonComponent` and
+ * `acme-my-button.component.ts`.
+ *
+ * @param tagName - Custom element tag name
+ * @param prefix - Wrapper selector prefix
+ * @param naming - Naming strategy overriding the default templates
+ * @returns Naming context and the derived names
+ */
+export const resolveComponentNames = (
+  tagName: string,
+  prefix: string,
+  naming: NamingStrategy = {}
+): {
+  context: NamingContext;
+  selector: string;
+  className: string;
+  fileName: string;
+} => {
+  const strip = naming.stripTagPrefix;
+  const context: NamingContext = {
+    tagName,
+    name:
+      strip && tagName.startsWith(strip) && tagName.length > strip.length
+        ? tagName.slice(strip.length)
+        : tagName,
+    prefix,
+  };
+
+  const selector = applyNamingRule(
+    naming.selector ?? DEFAULT_NAMING_TEMPLATES.selector,
+    context
+  );
+  context.selector = selector;
+
+  return {
+    context,
+    selector,
+    className: applyNamingRule(
+      naming.className ?? DEFAULT_NAMING_TEMPLATES.className,
+      context
+    ),
+    fileName: applyNamingRule(
+      naming.fileName ?? DEFAULT_NAMING_TEMPLATES.fileName,
+      context
+    ),
+  };
+};
+
+/**
+ * Derives the output name of an event. Templates can use `{event}` (the
+ * event name as an identifier) and `{Event}` besides the component
+ * placeholders.
+ *
+ * @param eventName - DOM event name
+ * @param context - Naming context of the component
+ * @param naming - Naming strategy overriding the default template
+ * @returns Output name
+ */
+export const resolveOutputName = (
+  eventName: string,
+  context: NamingContext,
+  naming: NamingStrategy = {}
+): string => {
+  const rule = naming.outputName ?? DEFAULT_NAMING_TEMPLATES.outputName;
+  if (typeof rule === "function") {
+    return rule(eventName, context);
+  }
+
+  const event = toIdentifier(eventName);
+  return fillTemplate(rule, {
+    event,
+    Event: event[0].toUpperCase() + event.slice(1),
+    tagName: context.tagName,
+    name: context.name,
+    Name: toPascalCase(context.name),
+    prefix: context.prefix,
+    Prefix: toPascalCase(context.prefix),
+  });
+};
+
+/**
+ * Claims names within one namespace. Taken names are renamed with the
+ * collision rule, or kept and reported when the rule is "error".
+ */
+const createNamespace = (
+  onCollision: NamingCollisionRule,
+  normalize: (name: string) => string = (name) => name
+) => {
+  const claims = new Map<string, { name: string; owners: string[] }>();
+
+  const add = (name: string, owner: string) => {
+    const key = normalize(name);
+    const claim = claims.get(key) ?? { name, owners: [] };
+    claim.owners.push(owner);
+    claims.set(key, claim);
+  };
+
+  /**
+   * Claims a name for an owner and returns the name to use. The rule renames
+   * `collision.name` and `toName` rebuilds the full name from the result;
+   * claims without collision details, like wrapper members, are never renamed.
+   */
+  const claim = (
+    name: string,
+    owner: string,
+    collision?: Omit<NamingCollision, "index">,
+    toName: (stem: string) => string = (stem) => stem
+  ): string => {
+    if (!claims.has(normalize(name)) || onCollision === "error" || !collision) {
+      add(name, owner);
+      return name;
+    }
+
+    let previous: string | undefined;
+    for (let index = 2; ; index++) {
+      const candidate = toName(
+        typeof onCollision === "function"
+          ? onCollision({ ...collision, index })
+          : fillTemplate(onCollision, {
+              name: collision.name,
+              index: String(index),
+              tagName: collision.tagName,
+            })
+      );
+      if (!claims.has(normalize(candidate))) {
+        add(candidate, owner);
+        return candidate;
+      }
+      if (candidate === previous) {
+        throw new Error(
+          `Naming collision rule keeps returning "${candidate}" for ${collision.kind} "${collision.name}" of ${collision.tagName}; use the index to make names unique.`
+        );
+      }
+      previous = candidate;
+    }
+  };
+
+  const collisions = () =>
+    Array.from(claims.values()).filter((entry) => entry.owners.length > 1);
+
+  return { claim, collisions };
+};
+
+/**
+ * Resolves collisions between the names produced by the naming strategy.
+ * Selectors, class names and file names (compared case-insensitively) must be
+ * unique across components. Within a wrapper class, property inputs, event
+ * outputs, methods and attribute inputs must not collide with each other or
+ * with the wrapper's own members. The first claimant keeps a name; later ones
+ * are renamed with the collision rule, and renamed inputs and outputs keep
+ * their original binding name as alias.
+ *
+ * @param components - Parsed component metadata
+ * @param onCollision - Collision rule from the naming strategy
+ * @param cssVars - Whether wrappers get the typed cssVars input
+ * @returns Components with collisions renamed
+ * @throws Error listing every collision and invalid name
+ */
+export const resolveNameCollisions = (
+  components: ComponentMeta[],
+  onCollision: NamingCollisionRule = "error",
+  cssVars: boolean = false
+): ComponentMeta[] => {
+  const componentProblems: string[] = [];
+  const problems: string[] = [];
+  const isIdentifier = (value: string) => /^[A-Za-z_$][\w$]*$/.test(value);
+  const selectors = createNamespace(onCollision);
+  const classNames = createNamespace(onCollision);
+  const fileNames = createNamespace(onCollision, (name) => name.toLowerCase());
+
+  const resolved = components.map((component) => {
+    const { tagName } = component;
+    const fileStem = component.fileName.split(".")[0];
+    const members = createNamespace(onCollision);
+    getWrapperMemberNames(component, cssVars).forEach((name) =>
+      members.claim(name, "the wrapper")
+    );
+
+    const renamed: ComponentMeta = {
+      ...component,
+      selector: selectors.claim(component.selector, tagName, {
+        kind: "selector",
+        name: component.selector,
+        tagName,
+      }),
+      className: classNames.claim(component.className, tagName, {
+        kind: "className",
+        name: component.className,
+        tagName,
+      }),
+      fileName: fileNames.claim(
+        component.fileName,
+        tagName,
+        { kind: "fileName", name: fileStem, tagName },
+        (stem) => stem + component.fileName.slice(fileStem.length)
+      ),
+      members: component.members.map((member) => {
+        const inputName = members.claim(member.name, `property "${member.name}"`, {
+          kind: "input",
+          name: member.name,
+          tagName,
+        });
+        return inputName === member.name ? member : { ...member, inputName };
+      }),
+      events: component.events.map((event) => ({
+        ...event,
+        outputName: members.claim(event.outputName, `event "${event.eventName}"`, {
+          kind: "output",
+          name: event.outputName,
+          tagName,
+        }),
+      })),
+      methods: component.methods.map((method) => {
+        const wrapperName = members.claim(method.name, `method "${method.name}()"`, {
+          kind: "method",
+          name: method.name,
+          tagName,
+        });
+        return wrapperName === method.name ? method : { ...method, wrapperName };
+      }),
+    };
+
+    // Attribute inputs are derived from the other names, so they come last
+    const attributeInputs = new Set(getAttributeInputs(renamed));
+    renamed.attributes = component.attributes.map((attribute) => {
+      if (!attributeInputs.has(attribute)) {
+        return attribute;
+      }
+      const name = toIdentifier(attribute.name);
+      const inputName = members.claim(name, `attribute "${attribute.name}"`, {
+        kind: "input",
+        name,
+        tagName,
+      });
+      return inputName === name ? attribute : { ...attribute, inputName };
+    });
+
+    members
+      .collisions()
+      .forEach(({ name, owners }) =>
+        problems.push(
+          `member "${name}" of ${tagName} is used by ${owners.join(", ")}`
+        )
+      );
+    if (!isIdentifier(renamed.className)) {
+      problems.push(
+        `className "${renamed.className}" of ${tagName} is not a valid identifier`
+      );
+    }
+    renamed.events
+      .filter((event) => !isIdentifier(event.outputName))
+      .forEach((event) =>
+        problems.push(
+          `outputName "${event.outputName}" of ${tagName} event "${event.eventName}" is not a valid identifier`
+        )
+      );
+    [
+      ...renamed.members.map((member) => member.inputName),
+      ...renamed.attributes.map((attribute) => attribute.inputName),
+      ...renamed.methods.map((method) => method.wrapperName),
+    ]
+      .filter((name): name is string => !!name && !isIdentifier(name))
+      .forEach((name) =>
+        problems.push(
+          `renamed member "${name}" of ${tagName} is not a valid identifier`
+        )
+      );
+
+    return renamed;
+  });
+
+  (
+    [
+      ["selector", selectors],
+      ["className", classNames],
+      ["fileName", fileNames],
+    ] as const
+  ).forEach(([key, namespace]) =>
+    namespace
+      .collisions()
+      .forEach(({ name, owners }) =>
+        componentProblems.push(
+          `${key} "${name}" is used by ${owners.join(", ")}`
+        )
+      )
+  );
+
+  if (componentProblems.length + problems.length > 0) {
+    throw new Error(
+      `Naming collisions in generated wrappers:\n${[...componentProblems, ...problems]
+        .map((problem) => `  - ${problem}`)
+        .join("\n")}`
+    );
+  }
+
+  return resolved;
+};
@@ -32,20 +32,50 @@ declare module 'node:fs' {
   export function lstatSync(path: string): { isSymbolicLink(): boolean };
   export function readlinkSync(path: string): string;
   export function symlinkSync(target: string, path: string, type?: string): void;
+
+  export interface FSWatcher {
+    close(): void;
+    on(event: 'error', listener: (error: Error) => void): this;
+  }
+
+  export function watch(
+    path: string,
+    options: { recursive?: boolean; persistent?: boolean },
+    listener: (eventType: string, filename: string | null) => void,
+  ): FSWatcher;
 }
 
 declare module 'node:path' {
   export function join(...segments: string[]): string;
   export function resolve(...segments: string[]): string;
   export function dirname(path: string): string;
+  export function extname(path: string): string;
+  export function basename(path: string): string;
+  export function relative(from: string, to: string): string;
+  export function isAbsolute(path: string): boolean;
+}
+
+declare module 'node:url' {
+  export function pathToFileURL(path: string): { href: string };
 }
 
 declare const process: {
   platform: string;
   env: Record<string, string | undefined>;
+  argv: string[];
+  exitCode?: number;
   cwd(): string;
 };
 
+declare const console: {
+  log(...data: unknown[]): void;
+  warn(...data: unknown[]): void;
+  error(...data: unknown[]): void;
+};
+
+declare function setTimeout(callback: () => void, ms?: number): unknown;
+declare function clearTimeout(handle: unknown): void;
+
 declare namespace NodeJS {
   interface ErrnoException extends Error {
     code?: string;
@@ -0,0 +1,164 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { basename, dirname, join, resolve } from "node:path";
+
+import type { PackageManifest } from "./types";
+
+/**
+ * Lists the node_modules directories Node searches from a directory,
+ * nearest first.
+ */
+const getNodeModulesDirs = (fromDir: string): string[] => {
+  const dirs: string[] = [];
+  for (let dir = resolve(fromDir); ; dir = dirname(dir)) {
+    const candidate = join(dir, "node_modules");
+    if (existsSync(candidate)) {
+      dirs.push(candidate);
+    }
+    if (dirname(dir) === dir) {
+      return dirs;
+    }
+  }
+};
+
+/**
+ * Lists the package names installed in a node_modules directory, including
+ * scoped packages.
+ */
+const listPackageNames = (nodeModulesDir: string): string[] =>
+  readdirSync(nodeModulesDir)
+    .filter((name) => !name.startsWith("."))
+    .flatMap((name) =>
+      name.startsWith("@")
+        ? readdirSync(join(nodeModulesDir, name))
+            .filter((scoped) => !scoped.startsWith("."))
+            .map((scoped) => `${name}/${scoped}`)
+        : [name]
+    );
+
+/**
+ * Converts a package name pattern, where `*` matches within one path
+ * segment, into a regular expression.
+ */
+const toPackagePattern = (pattern: string): RegExp =>
+  new RegExp(
+    `^${pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join("[^/]*")}$`
+  );
+
+/**
+ * Reads the manifest an installed package references through the
+ * `customElements` field of its package.json.
+ *
+ * @param packageDir - Directory of the installed package
+ * @returns The package manifest, or undefined if the package has none
+ */
+export const readPackageManifest = (
+  packageDir: string
+): PackageManifest | undefined => {
+  const packageJsonPath = join(packageDir, "package.json");
+  if (!existsSync(packageJsonPath)) {
+    return undefined;
+  }
+
+  const pkg = JSON.parse(readFileSync(packageJsonPath, "utf-8"));
+  if (typeof pkg.customElements !== "string") {
+    return undefined;
+  }
+  return {
+    packageName: typeof pkg.name === "string" ? pkg.name : basename(packageDir),
+    version: typeof pkg.version === "string" ? pkg.version : undefined,
+    packageDir,
+    manifestPath: resolve(packageDir, pkg.customElements),
+  };
+};
+
+/**
+ * Resolves an installed package from node_modules, the way Node would from
+ * a directory, and reads the manifest its package.json references.
+ *
+ * @param packageName - Package name, e.g. "@shoelace-style/shoelace"
+ * @param fromDir - Directory node_modules are searched from (default: process.cwd())
+ * @returns The package manifest
+ * @throws Error if the package is not installed or has no customElements field
+ */
+export const resolvePackageManifest = (
+  packageName: string,
+  fromDir: string = process.cwd()
+): PackageManifest => {
+  const packageDir = getNodeModulesDirs(fromDir)
+    .map((nodeModulesDir) => join(nodeModulesDir, packageName))
+    .find((dir) => existsSync(join(dir, "package.json")));
+  if (!packageDir) {
+    throw new Error(
+      `Package "${packageName}" is not installed in node_modules of ${resolve(
+        fromDir
+      )} or its parent directories.`
+    );
+  }
+
+  const manifest = readPackageManifest(packageDir);
+  if (!manifest) {
+    throw new Error(
+      `Package "${packageName}" has no customElements field in ${join(
+        packageDir,
+        "package.json"
+      )}.`
+    );
+  }
+  if (!existsSync(manifest.manifestPath)) {
+    throw new Error(
+      `Package "${packageName}" references ${manifest.manifestPath} in its customElements field, but it does not exist.`
+    );
+  }
+  return manifest;
+};
+
+/**
+ * Finds the manifests of the installed packages matching name patterns such
+ * as `"@acme/*"`. The nearest installation of a package wins.
+ *
+ * @param patterns - Package name patterns
+ * @param fromDir - Directory node_modules are searched from (default: process.cwd())
+ * @returns Manifests of the matching packages, sorted by package name
+ * @throws Error listing patterns that match no package with a manifest
+ */
+export const discoverPackageManifests = (
+  patterns: string[],
+  fromDir: string = process.cwd()
+): PackageManifest[] => {
+  const expressions = patterns.map(toPackagePattern);
+  const found = new Map<string, PackageManifest>();
+  const matchedPatterns = new Set<number>();
+
+  for (const nodeModulesDir of getNodeModulesDirs(fromDir)) {
+    for (const name of listPackageNames(nodeModulesDir)) {
+      const matches = expressions
+        .map((expression, index) => (expression.test(name) ? index : -1))
+        .filter((index) => index !== -1);
+      if (matches.length === 0 || found.has(name)) {
+        continue;
+      }
+
+      const manifest = readPackageManifest(join(nodeModulesDir, name));
+      if (manifest) {
+        found.set(name, manifest);
+        matches.forEach((index) => matchedPatterns.add(index));
+      }
+    }
+  }
+
+  const unmatched = patterns.filter((_, index) => !matchedPatterns.has(index));
+  if (unmatched.length > 0) {
+    throw new Error(
+      `No package with a customElements field in node_modules matches:\n${unmatched
+        .map((pattern) => `  - ${pattern}`)
+        .join("\n")}`
+    );
+  }
+
+  return Array.from(found.values()).sort((a, b) =>
+    a.packageName.localeCompare(b.packageName)
+  );
+};
@@ -0,0 +1,177 @@
+import { isAbsolute, join } from "node:path";
+
+import type {
+  ComponentMeta,
+  GeneratedFile,
+  GenerateAngularWrappersResult,
+  GeneratorPlugin,
+  GeneratorPluginContext,
+} from "./types";
+
+/**
+ * Runs a plugin hook, prefixing errors it throws with the plugin and hook.
+ */
+const runHook = <T>(
+  plugin: GeneratorPlugin,
+  hook: keyof GeneratorPlugin,
+  run: () => T,
+  subject?: string
+): T => {
+  try {
+    return run();
+  } catch (error) {
+    throw new Error(
+      `Plugin "${plugin.name}" failed in ${hook}${
+        subject ? ` for ${subject}` : ""
+      }: ${(error as Error).message}`
+    );
+  }
+};
+
+/**
+ * Passes the manifest through the plugins' transformManifest hooks.
+ *
+ * @param plugins - Registered plugins
+ * @param manifest - Parsed manifest
+ * @param context - Plugin context
+ * @returns Transformed manifest
+ */
+export const transformManifest = (
+  plugins: GeneratorPlugin[],
+  manifest: Record<string, any>,
+  context: GeneratorPluginContext
+): Record<string, any> =>
+  plugins.reduce((current, plugin) => {
+    const hook = plugin.transformManifest;
+    if (!hook) {
+      return current;
+    }
+    const result = runHook(plugin, "transformManifest", () =>
+      hook(current, context)
+    );
+    return result ?? current;
+  }, manifest);
+
+/**
+ * Passes every component through the plugins' transformComponentMeta hooks,
+ * dropping components a plugin skips.
+ *
+ * @param plugins - Registered plugins
+ * @param components - Parsed component metadata
+ * @param context - Plugin context
+ * @returns Transformed components
+ */
+export const transformComponents = (
+  plugins: GeneratorPlugin[],
+  components: ComponentMeta[],
+  context: GeneratorPluginContext
+): ComponentMeta[] =>
+  components.flatMap((component) => {
+    let current = component;
+    for (const plugin of plugins) {
+      const hook = plugin.transformComponentMeta;
+      if (!hook) {
+        continue;
+      }
+      const result = runHook(
+        plugin,
+        "transformComponentMeta",
+        () => hook(current, context),
+        component.tagName
+      );
+      if (result === false) {
+        return [];
+      }
+      current = result ?? current;
+    }
+    return [current];
+  });
+
+/**
+ * Passes a generated wrapper file through the plugins'
+ * transformComponentSource hooks.
+ *
+ * @param plugins - Registered plugins
+ * @param source - Generated file content
+ * @param component - Component the file wraps
+ * @param context - Plugin context
+ * @returns Transformed file content
+ */
+export const transformComponentSource = (
+  plugins: GeneratorPlugin[],
+  source: string,
+  component: ComponentMeta,
+  context: GeneratorPluginContext
+): string =>
+  plugins.reduce((current, plugin) => {
+    const hook = plugin.transformComponentSource;
+    if (!hook) {
+      return current;
+    }
+    return runHook(
+      plugin,
+      "transformComponentSource",
+      () => {
+        const result = hook(current, component, context);
+        if (typeof result !== "string") {
+          throw new Error(`expected a string, got ${typeof result}.`);
+        }
+        return result;
+      },
+      component.tagName
+    );
+  }, source);
+
+/**
+ * Collects the files the plugins' emitAdditionalFiles hooks add.
+ *
+ * @param plugins - Registered plugins
+ * @param components - Components wrappers are generated for
+ * @param context - Plugin context
+ * @returns Files with absolute paths
+ */
+export const collectPluginFiles = (
+  plugins: GeneratorPlugin[],
+  components: ComponentMeta[],
+  context: GeneratorPluginContext
+): GeneratedFile[] =>
+  plugins.flatMap((plugin) => {
+    const hook = plugin.emitAdditionalFiles;
+    if (!hook) {
+      return [];
+    }
+    return runHook(plugin, "emitAdditionalFiles", () =>
+      hook(components, context).map((file) => {
+        if (typeof file?.path !== "string" || typeof file.content !== "string") {
+          throw new Error("files need a string path and content.");
+        }
+        return {
+          path: isAbsolute(file.path)
+            ? file.path
+            : join(context.wrappersRoot, file.path),
+          content: file.content,
+          overwrite: file.overwrite ?? true,
+        };
+      })
+    );
+  });
+
+/**
+ * Runs the plugins' afterGenerate hooks.
+ *
+ * @param plugins - Registered plugins
+ * @param result - Generation result
+ * @param context - Plugin context
+ */
+export const runAfterGenerate = (
+  plugins: GeneratorPlugin[],
+  result: GenerateAngularWrappersResult,
+  context: GeneratorPluginContext
+): void => {
+  for (const plugin of plugins) {
+    const hook = plugin.afterGenerate;
+    if (hook) {
+      runHook(plugin, "afterGenerate", () => hook(result, context));
+    }
+  }
+};
@@ -0,0 +1,436 @@
+import * as ts from "typescript";
+
+import { BUILT_IN_TYPE_TOKENS } from "./constants";
+import type {
+  ComponentMeta,
+  ComponentTypeFallback,
+  ComponentTypeReference,
+  ManifestReference,
+  UnresolvedTypeFallback,
+} from "./types";
+
+/**
+ * Lookup table of names declared or exported by the loaded manifests.
+ */
+export type TypeDeclarationIndex = Map<string, Omit<ManifestReference, "name">>;
+
+/**
+ * A manifest `type` object together with the package it was declared in.
+ */
+export interface ManifestTypeSource {
+  /** Raw manifest type, e.g. `{ text: "Size[]", references: [...] }` */
+  type: any;
+  /** Package the entry belongs to (undefined for the primary manifest) */
+  packageName?: string;
+}
+
+/**
+ * Parsed type names keyed by type text; the same texts repeat across
+ * components and members.
+ */
+const typeNameCache = new Map<string, string[]>();
+
+const MODULE_EXTENSION = /\.(d\.ts|tsx?|mts|cts|jsx?|mjs|cjs)$/;
+
+/** Prefix turning a type text into a parsable type alias. */
+const TYPE_ALIAS_PREFIX = "type __Type = ";
+
+const getRootName = (name: ts.EntityName): string =>
+  ts.isIdentifier(name) ? name.text : getRootName(name.left);
+
+/**
+ * Parses a type text as the right-hand side of a type alias.
+ */
+const parseTypeText = (typeText: string): ts.TypeNode | undefined => {
+  const source = ts.createSourceFile(
+    "type.ts",
+    `${TYPE_ALIAS_PREFIX}${typeText};`,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TS
+  );
+  const [statement] = source.statements;
+  return statement && ts.isTypeAliasDeclaration(statement)
+    ? statement.type
+    : undefined;
+};
+
+/**
+ * Collects the names a type text refers to, using the TypeScript parser.
+ * String literals, keywords and type parameters declared within the text
+ * (e.g. `<T>(value: T) => void` or mapped type keys) are not reported, and
+ * qualified names report their root (`Icons.Name` → `Icons`).
+ *
+ * @param typeText - Type annotation text from the manifest
+ * @returns Referenced type names in order of appearance
+ */
+export const collectTypeNames = (typeText: string): string[] => {
+  const cached = typeNameCache.get(typeText);
+  if (cached) {
+    return cached;
+  }
+
+  const declared = new Set<string>();
+  const referenced = new Set<string>();
+  const visit = (node: ts.Node): void => {
+    if (ts.isTypeParameterDeclaration(node)) {
+      declared.add(node.name.text);
+    } else if (ts.isTypeReferenceNode(node)) {
+      referenced.add(getRootName(node.typeName));
+    } else if (ts.isTypeQueryNode(node)) {
+      referenced.add(getRootName(node.exprName));
+    }
+    ts.forEachChild(node, visit);
+  };
+  const typeNode = parseTypeText(typeText);
+  if (typeNode) {
+    visit(typeNode);
+  }
+
+  const names = Array.from(referenced).filter((name) => !declared.has(name));
+  typeNameCache.set(typeText, names);
+  return names;
+};
+
+/**
+ * Indexes the names declared or exported by each module of the given
+ * manifests, so types without a recorded reference can still be located.
+ * When several modules declare a name, the first one wins.
+ *
+ * @param manifests - Primary manifest and any reference manifests
+ * @returns Declared names with the module or package they come from
+ */
+export const createTypeDeclarationIndex = (
+  manifests: Array<{ packageName?: string; manifest: any }>
+): TypeDeclarationIndex => {
+  const index: TypeDeclarationIndex = new Map();
+  const add = (name: unknown, location: Omit<ManifestReference, "name">) => {
+    if (typeof name === "string" && name !== "*" && !index.has(name)) {
+      index.set(name, location);
+    }
+  };
+
+  for (const { packageName, manifest } of manifests) {
+    const modules = Array.isArray(manifest?.modules) ? manifest.modules : [];
+    for (const mod of modules) {
+      const location = packageName
+        ? { package: packageName }
+        : { module: mod?.path as string | undefined };
+      (Array.isArray(mod?.declarations) ? mod.declarations : []).forEach(
+        (declaration: any) => add(declaration?.name, location)
+      );
+      (Array.isArray(mod?.exports) ? mod.exports : [])
+        .filter((entry: any) => entry?.kind === "js")
+        .forEach((entry: any) =>
+          add(
+            entry.name,
+            packageName || entry.declaration?.package
+              ? { package: entry.declaration?.package ?? packageName }
+              : { module: entry.declaration?.module ?? mod?.path }
+          )
+        );
+    }
+  }
+
+  return index;
+};
+
+/**
+ * Maps the location of a type onto an import specifier; lazy registration
+ * locates element classes the same way. Types from other packages are
+ * imported from that package. Types from a module of the
+ * component library are imported through the longest matching prefix in
+ * `typeImportPaths` (the remainder of the path is appended without its
+ * extension), or from the library root when no prefix matches.
+ *
+ * @param reference - Package and module the type is declared in
+ * @param typeImportPaths - Module path prefixes mapped to import specifiers
+ * @returns Import specifier, or undefined for the component library root
+ */
+export const getTypeImportPath = (
+  reference: Omit<ManifestReference, "name">,
+  typeImportPaths: Record<string, string> = {}
+): string | undefined => {
+  if (reference.package) {
+    return reference.package;
+  }
+  if (!reference.module) {
+    return undefined;
+  }
+
+  const modulePath = reference.module.replace(/^\.?\//, "");
+  const prefix = Object.keys(typeImportPaths)
+    .filter((key) => modulePath.startsWith(key.replace(/^\.?\//, "")))
+    .sort((a, b) => b.length - a.length)[0];
+  if (prefix === undefined) {
+    return undefined;
+  }
+
+  const remainder = modulePath
+    .slice(prefix.replace(/^\.?\//, "").length)
+    .replace(MODULE_EXTENSION, "");
+  return `${typeImportPaths[prefix]}${remainder}`;
+};
+
+/**
+ * Resolves the types used by a component's API. References recorded by the
+ * analyzer (`type.references`) win; other names found in the type texts are
+ * looked up among the manifests' declarations. Globals and built-in types are
+ * skipped, and anything left is marked unresolved.
+ *
+ * @param sources - Manifest types of the component's members, attributes, events and methods
+ * @param declarations - Names declared by the loaded manifests
+ * @param typeImportPaths - Module path prefixes mapped to import specifiers
+ * @returns Types that need to be imported, in order of appearance
+ */
+export const resolveTypeReferences = (
+  sources: ManifestTypeSource[],
+  declarations: TypeDeclarationIndex,
+  typeImportPaths: Record<string, string> = {}
+): ComponentTypeReference[] => {
+  const resolved = new Map<string, ComponentTypeReference>();
+  const globals = new Set<string>();
+
+  for (const { type, packageName } of sources) {
+    const references = Array.isArray(type?.references) ? type.references : [];
+    for (const reference of references) {
+      const name = reference?.name;
+      if (typeof name !== "string" || resolved.has(name) || globals.has(name)) {
+        continue;
+      }
+      // The analyzer marks DOM and language types as "global:"
+      if (String(reference.package ?? "").startsWith("global:")) {
+        globals.add(name);
+        continue;
+      }
+
+      const location = {
+        package: (reference.package as string | undefined) ?? packageName,
+        module: reference.module as string | undefined,
+      };
+      resolved.set(name, {
+        name,
+        ...location,
+        importPath: getTypeImportPath(location, typeImportPaths),
+      });
+    }
+  }
+
+  for (const { type } of sources) {
+    const typeText = typeof type?.text === "string" ? type.text : "";
+    for (const name of collectTypeNames(typeText)) {
+      if (
+        resolved.has(name) ||
+        globals.has(name) ||
+        BUILT_IN_TYPE_TOKENS.has(name)
+      ) {
+        continue;
+      }
+
+      const declared = declarations.get(name);
+      resolved.set(
+        name,
+        declared
+          ? {
+              name,
+              ...declared,
+              importPath: getTypeImportPath(declared, typeImportPaths),
+            }
+          : { name, unresolved: true }
+      );
+    }
+  }
+
+  return Array.from(resolved.values());
+};
+
+/**
+ * Replaces references to type names in a type text, e.g. `Foo[] | Bar` with
+ * `{ Foo: "unknown" }` becomes `unknown[] | Bar`. Generic arguments and
+ * qualified names are replaced together with the reference, and nested
+ * replacements containing operators are parenthesized.
+ *
+ * @param typeText - Type annotation text
+ * @param getReplacement - Returns the replacement for a type name, if any
+ * @returns Rewritten type text
+ */
+export const rewriteTypeText = (
+  typeText: string,
+  getReplacement: (name: string) => string | undefined
+): string => {
+  const typeNode = parseTypeText(typeText);
+  if (!typeNode) {
+    return typeText;
+  }
+
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  const visit = (node: ts.Node): void => {
+    const name = ts.isTypeReferenceNode(node)
+      ? getRootName(node.typeName)
+      : ts.isTypeQueryNode(node)
+        ? getRootName(node.exprName)
+        : undefined;
+    const replacement = name === undefined ? undefined : getReplacement(name);
+    if (replacement !== undefined) {
+      edits.push({
+        start: node.getStart() - TYPE_ALIAS_PREFIX.length,
+        end: node.getEnd() - TYPE_ALIAS_PREFIX.length,
+        text:
+          !ts.isTypeAliasDeclaration(node.parent) &&
+          /[|&?]|=>|^(keyof|typeof|readonly)\s/.test(replacement)
+            ? `(${replacement})`
+            : replacement,
+      });
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(typeNode);
+
+  // Apply from the end so earlier offsets stay valid
+  return edits
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end),
+      typeText
+    );
+};
+
+/**
+ * Lists the type texts of a component's API together with the member,
+ * attribute, event or method using them.
+ */
+const getTypeUsages = (
+  component: ComponentMeta
+): Array<{ usedBy: string; typeText: string }> => [
+  ...component.members.map((member) => ({
+    usedBy: member.name,
+    typeText: member.type,
+  })),
+  ...component.attributes.map((attribute) => ({
+    usedBy: attribute.fieldName ?? attribute.name,
+    typeText: attribute.type,
+  })),
+  ...component.events.map((event) => ({
+    usedBy: event.eventName,
+    typeText: event.type,
+  })),
+  ...component.methods.flatMap((method) =>
+    [
+      ...method.parameters.map((parameter) => parameter.type),
+      method.returnType,
+    ].map((typeText) => ({ usedBy: `${method.name}()`, typeText }))
+  ),
+];
+
+/**
+ * Maps each unresolved type of a component to the members, attributes,
+ * events and methods using it.
+ *
+ * @param component - Component metadata
+ * @returns Unresolved type names with their users
+ */
+export const getUnresolvedTypeUsages = (
+  component: ComponentMeta
+): Map<string, string[]> => {
+  const unresolved = new Set(
+    component.typeReferences
+      .filter((reference) => reference.unresolved)
+      .map((reference) => reference.name)
+  );
+  const usages = new Map<string, string[]>();
+  for (const { usedBy, typeText } of getTypeUsages(component)) {
+    for (const name of collectTypeNames(typeText)) {
+      if (!unresolved.has(name)) continue;
+      const users = usages.get(name) ?? [];
+      if (!users.includes(usedBy)) {
+        usages.set(name, [...users, usedBy]);
+      }
+    }
+  }
+  return usages;
+};
+
+/**
+ * Rewrites the types of a component's API according to the fallback policy:
+ * configured replacements are substituted first, then unresolved types are
+ * widened to `unknown` or `any` unless the fallback is "import". Substituted
+ * types are no longer imported and are recorded in `typeFallbacks`.
+ *
+ * @param component - Component metadata
+ * @param typeReplacements - Type texts keyed by the type name they replace
+ * @param fallback - How unresolved types are emitted
+ * @returns Component metadata with rewritten types
+ */
+export const applyTypeFallback = (
+  component: ComponentMeta,
+  typeReplacements: Record<string, string> = {},
+  fallback: UnresolvedTypeFallback = "import"
+): ComponentMeta => {
+  const substitutes = new Map(Object.entries(typeReplacements));
+  if (fallback !== "import") {
+    component.typeReferences
+      .filter(
+        (reference) => reference.unresolved && !substitutes.has(reference.name)
+      )
+      .forEach((reference) => substitutes.set(reference.name, fallback));
+  }
+  if (substitutes.size === 0) {
+    return component;
+  }
+
+  const fallbacks = new Map<string, ComponentTypeFallback>();
+  const rewrite = (typeText: string, usedBy: string): string =>
+    rewriteTypeText(typeText, (name) => {
+      const replacement = substitutes.get(name);
+      if (replacement === undefined) {
+        return undefined;
+      }
+      const entry = fallbacks.get(name) ?? {
+        name,
+        replacement,
+        widened: !(name in typeReplacements),
+        usedBy: [],
+      };
+      if (!entry.usedBy.includes(usedBy)) {
+        entry.usedBy.push(usedBy);
+      }
+      fallbacks.set(name, entry);
+      return replacement;
+    });
+
+  return {
+    ...component,
+    members: component.members.map((member) => ({
+      ...member,
+      type: rewrite(member.type, member.name),
+    })),
+    attributes: component.attributes.map((attribute) => ({
+      ...attribute,
+      type: rewrite(attribute.type, attribute.fieldName ?? attribute.name),
+    })),
+    events: component.events.map((event) => ({
+      ...event,
+      type: rewrite(event.type, event.eventName),
+    })),
+    methods: component.methods.map((method) => ({
+      ...method,
+      parameters: method.parameters.map((parameter) => ({
+        ...parameter,
+        type: rewrite(parameter.type, `${method.name}()`),
+      })),
+      returnType: rewrite(method.returnType, `${method.name}()`),
+    })),
+    formControl: component.formControl && {
+      ...component.formControl,
+      valueType: rewrite(
+        component.formControl.valueType,
+        component.formControl.valueProperty
+      ),
+    },
+    typeReferences: component.typeReferences.filter(
+      (reference) => !fallbacks.has(reference.name)
+    ),
+    typeFallbacks: Array.from(fallbacks.values()),
+  };
+};
@@ -22,8 +22,24 @@ export interface RunCemAnalyzeOptions {
  * Options for generating Angular wrapper components.
  */
 export interface GenerateAngularWrappersOptions {
-  /** Path to the custom-elements.json manifest */
-  manifestPath: string;
+  /**
+   * Path to the custom-elements.json manifest; optional when `manifests` or
+   * `manifestPackages` provide manifests
+   */
+  manifestPath?: string;
+  /**
+   * Manifests of further component packages generated into the same wrapper
+   * package, each with its own import path, loader and selector prefix
+   */
+  manifests?: ManifestSource[];
+  /**
+   * Package name patterns such as `"@acme/*"`; matching packages in
+   * node_modules whose package.json has a `customElements` field are added
+   * to `manifests`
+   */
+  manifestPackages?: string[];
+  /** Directory node_modules are searched from for `manifestPackages` (default: process.cwd()) */
+  cwd?: string;
   /** Root directory where wrappers will be generated */
   wrappersRoot?: string;
   /** Root directory of the component library source */
@@ -36,8 +52,30 @@ export interface GenerateAngularWrappersOptions {
   componentLibraryVersion?: string;
   /** Import path for the loader function */
   loaderImportPath?: string;
+  /**
+   * How custom elements are defined: all at once through the loader's
+   * `defineCustomElements` ("loader", default), by each wrapper on first
+   * instantiation, importing only its own element class ("lazy"), by
+   * importing the modules defining them for self-registering libraries such
+   * as Lit ("import"), or in a custom element registry passed to the
+   * registration function ("scoped")
+   */
+  registration?: ElementRegistration;
+  /**
+   * Import specifiers for element classes and defining modules, keyed by
+   * module path prefix like `typeImportPaths`. Unmapped modules are imported
+   * by their path within `componentLibraryImport` for import and scoped
+   * registration, and from the library root for lazy registration.
+   */
+  elementImportPaths?: Record<string, string>;
   /** Prefix for wrapper component selectors */
   wrapperSelectorPrefix?: string;
+  /**
+   * Templates or functions deriving selectors, class names, file names and
+   * output names (default: `{prefix}{name}`, `{Prefix}{Name}Component`,
+   * `{selector}.component.ts` and `{event}`)
+   */
+  naming?: NamingStrategy;
   /** Path to link node_modules from */
   linkNodeModulesFrom?: string;
   /** Angular peer dependency version */
@@ -48,6 +86,365 @@ export interface GenerateAngularWrappersOptions {
   augmentAngularOutput?: boolean;
   /** Generate standalone components (default: true) */
   standalone?: boolean;
+  /**
+   * Generate signal-based wrappers using `input()`, `output()` and `model()`
+   * instead of decorators (requires Angular 17.3+, default: false)
+   */
+  signals?: boolean;
+  /**
+   * Generate ControlValueAccessor wrappers for form controls.
+   * Pass `true` to detect form controls from the manifest, or an object
+   * to tune detection and map individual tags explicitly (default: false).
+   */
+  formControls?: boolean | FormControlOptions;
+  /**
+   * Manifests of other packages, keyed by package name, used to resolve
+   * `package`-qualified superclass and mixin references
+   */
+  referenceManifests?: Record<string, string>;
+  /**
+   * Generate an attribute directive per named slot (e.g. `[wcMyCardHeader]`)
+   * that sets the `slot` attribute on projected content (default: false)
+   */
+  slotDirectives?: boolean;
+  /**
+   * Generate a typed `cssVars` input that applies the component's CSS custom
+   * properties to the element (default: false)
+   */
+  cssVars?: boolean;
+  /**
+   * Import specifiers for types declared in modules of the component library,
+   * keyed by module path prefix (e.g. `{ "src/": "my-lib/dist/" }`). Types
+   * from unmapped modules are imported from `componentLibraryImport`.
+   */
+  typeImportPaths?: Record<string, string>;
+  /**
+   * Type texts substituted for type names in wrapper APIs, e.g.
+   * `{ InternalState: "Record<string, unknown>" }`. Replacements are emitted
+   * as written and are not imported.
+   */
+  typeReplacements?: Record<string, string>;
+  /**
+   * How types the manifest neither references nor declares are emitted:
+   * imported from the library root ("import", default) or widened to
+   * "unknown" or "any" with a TODO comment
+   */
+  unresolvedTypeFallback?: UnresolvedTypeFallback;
+  /**
+   * Throw when a wrapper API uses an unresolved type that has no replacement,
+   * listing every component and member affected (default: false)
+   */
+  strictTypes?: boolean;
+  /**
+   * Plugins customizing the generation pipeline; their hooks run in the
+   * order the plugins are listed
+   */
+  plugins?: GeneratorPlugin[];
+  /** Templates replacing the default rendering of wrapper, barrel and registration files */
+  templates?: WrapperTemplates;
+  /** Plan the changes without touching disk (default: false) */
+  dryRun?: boolean;
+}
+
+/**
+ * A component package generated into the wrapper package together with
+ * others. Unset options fall back to the top-level options.
+ */
+export interface ManifestSource {
+  /** Path to the package's custom-elements.json manifest */
+  manifestPath: string;
+  /** Import path of the package */
+  componentLibraryImport: string;
+  /** Version range of the package dependency */
+  componentLibraryVersion?: string;
+  /** Import path of the package's loader (default: `<componentLibraryImport>/loader`) */
+  loaderImportPath?: string;
+  /** Prefix for the selectors of the package's wrappers */
+  wrapperSelectorPrefix?: string;
+  /** Root directory of the package (default: the manifest's parent directory) */
+  componentsRoot?: string;
+  /** Import specifiers for types of the package, keyed by module path prefix */
+  typeImportPaths?: Record<string, string>;
+  /** Import specifiers for element classes and defining modules of the package */
+  elementImportPaths?: Record<string, string>;
+}
+
+/**
+ * An installed package whose package.json references a Custom Elements
+ * Manifest through its `customElements` field.
+ */
+export interface PackageManifest {
+  /** Package name */
+  packageName: string;
+  /** Installed version */
+  version?: string;
+  /** Directory of the installed package */
+  packageDir: string;
+  /** Absolute path of the manifest */
+  manifestPath: string;
+}
+
+/**
+ * Templates replacing the default rendering of generated files. Each
+ * template receives the values the generator computed for the file.
+ */
+export interface WrapperTemplates {
+  /** Renders each component wrapper file */
+  componentFile?: (context: ComponentTemplateContext) => string;
+  /**
+   * Renders the barrel exporting the wrappers: `src/public-api.ts`, or
+   * `src/lib/lit/index.ts` for augmented output
+   */
+  publicApi?: (context: PublicApiTemplateContext) => string;
+  /** Renders the file registering the custom elements */
+  registration?: (context: RegistrationTemplateContext) => string;
+}
+
+/**
+ * Values a component wrapper file is rendered from. Code fragments are
+ * indented for the class body and carry no surrounding blank lines.
+ */
+export interface ComponentTemplateContext {
+  /** Component metadata */
+  component: ComponentMeta;
+  /** Whether the wrapper uses signal inputs, outputs and models */
+  signals: boolean;
+  /** Whether the wrapper is a standalone component */
+  standalone: boolean;
+  /** Header comment with the description and source module */
+  header: string;
+  /** Names imported from `@angular/core`, sorted */
+  angularImports: string[];
+  /** Import statements besides `@angular/core`, each followed by a newline */
+  imports: string;
+  /** Doc comment above the class followed by a newline, or an empty string */
+  classDocComment: string;
+  /** Properties of the `@Component` decorator */
+  decoratorMetadata: string;
+  /** Wrapper class name */
+  className: string;
+  /** Interfaces the class implements */
+  lifecycleInterfaces: string[];
+  /** Input declarations with their doc comments */
+  inputs: string[];
+  /** Output declarations with their doc comments */
+  outputs: string[];
+  /** Private fields holding the wrapper's state and services */
+  fields: string[];
+  /** Constructor, or an empty string */
+  constructorCode: string;
+  /** Angular lifecycle hook methods */
+  lifecycleHooks: string[];
+  /** Methods proxying the element's public methods */
+  methods: string[];
+  /** Private helper and ControlValueAccessor methods */
+  helpers: string[];
+  /** Declarations following the class (slot directives, CSS part names) */
+  declarations: string;
+  /** Renders the default file from the context's current values */
+  renderDefault: () => string;
+}
+
+/**
+ * A wrapper file exported from the barrel.
+ */
+export interface PublicApiModule {
+  /** Component metadata */
+  component: ComponentMeta;
+  /** Module specifier relative to the barrel, e.g. "./lib/wc-my-button.component" */
+  path: string;
+  /** Exported classes: the wrapper and its slot directives */
+  classNames: string[];
+  /** Export statements re-exporting everything the file exports */
+  exportLines: string[];
+}
+
+/**
+ * Values the barrel exporting the wrappers is rendered from.
+ */
+export interface PublicApiTemplateContext {
+  /** Components wrappers are generated for */
+  components: ComponentMeta[];
+  /** Wrapper files, in component order */
+  modules: PublicApiModule[];
+  /** Renders the default file from the context's current values */
+  renderDefault: () => string;
+}
+
+/**
+ * Values the registration file is rendered from.
+ */
+export interface RegistrationTemplateContext {
+  /** Components whose elements are registered */
+  components: ComponentMeta[];
+  /** Import path for element modules without a mapped import specifier */
+  componentLibraryImport: string;
+  /** Import path of the loader defining the custom elements */
+  loaderImportPath: string;
+  /** Import paths of the loaders of every component package, first one first */
+  loaderImportPaths: string[];
+  /** Registration strategy; lazily registered wrappers define their own elements */
+  registration: ElementRegistration;
+  /** Name of the exported registration function */
+  functionName: string;
+  /** Renders the default file from the context's current values */
+  renderDefault: () => string;
+}
+
+/**
+ * Values passed to every plugin hook.
+ */
+export interface GeneratorPluginContext {
+  /** Options of the generation run */
+  options: GenerateAngularWrappersOptions;
+  /** Resolved root directory of the wrappers package */
+  wrappersRoot: string;
+}
+
+/**
+ * A file added to the wrappers package by a plugin.
+ */
+export interface PluginFile {
+  /** File path, relative to the wrappers root unless absolute */
+  path: string;
+  /** File content */
+  content: string;
+  /**
+   * Whether an existing file is replaced on every run (default: true);
+   * false only creates the file once
+   */
+  overwrite?: boolean;
+}
+
+/**
+ * Customizes the generation pipeline. Hooks are synchronous and optional;
+ * errors thrown by a hook are reported with the plugin's name.
+ */
+export interface GeneratorPlugin {
+  /** Plugin name used in error messages */
+  name: string;
+  /**
+   * Transforms the parsed manifest before components are extracted. Return
+   * a new manifest or modify the given one in place.
+   */
+  transformManifest?: (
+    manifest: Record<string, any>,
+    context: GeneratorPluginContext
+  ) => Record<string, any> | void;
+  /**
+   * Transforms the metadata of a component before wrappers are generated.
+   * Return new metadata, modify the given metadata in place, or return
+   * false to skip the component.
+   */
+  transformComponentMeta?: (
+    component: ComponentMeta,
+    context: GeneratorPluginContext
+  ) => ComponentMeta | false | void;
+  /** Transforms the generated source of a component wrapper file */
+  transformComponentSource?: (
+    source: string,
+    component: ComponentMeta,
+    context: GeneratorPluginContext
+  ) => string;
+  /** Adds files to the wrappers package */
+  emitAdditionalFiles?: (
+    components: ComponentMeta[],
+    context: GeneratorPluginContext
+  ) => PluginFile[];
+  /** Runs after the files are written, or planned in dry runs */
+  afterGenerate?: (
+    result: GenerateAngularWrappersResult,
+    context: GeneratorPluginContext
+  ) => void;
+}
+
+/**
+ * Values available to naming templates and functions.
+ */
+export interface NamingContext {
+  /** Custom element tag name, e.g. "my-button" */
+  tagName: string;
+  /** Tag name without `stripTagPrefix`, e.g. "button" */
+  name: string;
+  /** Wrapper selector prefix, e.g. "acme-" */
+  prefix: string;
+  /** Wrapper selector; undefined while the selector itself is derived */
+  selector?: string;
+}
+
+/**
+ * A naming template such as `"{Prefix}{Name}Component"`, or a function.
+ * Templates can use `{tagName}`, `{name}`, `{Name}`, `{prefix}`, `{Prefix}`
+ * and, except for the selector, `{selector}`.
+ */
+export type NamingRule = string | ((context: NamingContext) => string);
+
+/**
+ * Controls how wrapper names are derived from tag and event names.
+ */
+export interface NamingStrategy {
+  /** Prefix removed from tag names before deriving names, e.g. "my-" */
+  stripTagPrefix?: string;
+  /** Wrapper selector */
+  selector?: NamingRule;
+  /** Wrapper class name */
+  className?: NamingRule;
+  /** Wrapper file name */
+  fileName?: NamingRule;
+  /**
+   * Output name of an event; templates can also use `{event}` (the event
+   * name as an identifier) and `{Event}`
+   */
+  outputName?: string | ((eventName: string, context: NamingContext) => string);
+  /** How colliding names are resolved (default: "error") */
+  onCollision?: NamingCollisionRule;
+}
+
+/**
+ * A generated name that is already taken, passed to the collision rule.
+ */
+export interface NamingCollision {
+  /** What the name is used for */
+  kind: "selector" | "className" | "fileName" | "input" | "output" | "method";
+  /** Colliding name; file names without the part from their first dot */
+  name: string;
+  /** Tag name of the component the name belongs to */
+  tagName: string;
+  /** Attempt number, starting at 2 */
+  index: number;
+}
+
+/**
+ * Resolves naming collisions. `"error"` fails generation with every
+ * collision; a template such as `"{name}{index}"` (placeholders `{name}`,
+ * `{index}`, `{tagName}`) or a function renames the later name instead.
+ */
+export type NamingCollisionRule =
+  | string
+  | ((collision: NamingCollision) => string);
+
+/**
+ * Options for detecting form-associated custom elements.
+ */
+export interface FormControlOptions {
+  /** Detect form controls from the manifest (default: true) */
+  detect?: boolean;
+  /** Per-tag mappings; `false` opts a tag out of ControlValueAccessor generation */
+  mappings?: Record<string, FormControlMapping | false>;
+}
+
+/**
+ * Describes how a custom element exposes its form value.
+ */
+export interface FormControlMapping {
+  /** Property holding the control value (default: "value") */
+  valueProperty?: string;
+  /** Event fired when the value changes (default: "change") */
+  changeEvent?: string;
+  /** Event fired when the control is touched (default: "blur") */
+  touchEvent?: string;
+  /** Property toggled by setDisabledState (default: "disabled") */
+  disabledProperty?: string;
 }
 
 /**
@@ -58,8 +455,110 @@ export interface GenerateAngularWrappersResult {
   components: ComponentMeta[];
   /** Root directory where wrappers were generated */
   wrappersRoot: string;
+  /** Path to the manifest that was used (the first one of several) */
+  manifestPath: string;
+  /** Changes planned against the files on disk (applied unless dryRun) */
+  plan: GenerationPlan;
+  /** Outcome for every generated or removed file */
+  files: GeneratedFileResult[];
+  /** Types used by wrappers that the manifest neither references nor declares */
+  unresolvedTypes: UnresolvedType[];
+}
+
+/**
+ * How types that cannot be resolved are emitted in wrapper APIs.
+ */
+export type UnresolvedTypeFallback = "import" | "unknown" | "any";
+
+/**
+ * How the custom elements behind the wrappers are defined.
+ */
+export type ElementRegistration = "loader" | "lazy" | "import" | "scoped";
+
+/**
+ * A type name found in a component's API that could not be located in the
+ * manifest. It is imported from the component library root unless widened.
+ */
+export interface UnresolvedType {
+  /** Tag name of the component using the type */
+  tagName: string;
+  /** Type name */
+  name: string;
+  /** Type the name was widened to, if any */
+  widenedTo?: string;
+}
+
+/**
+ * What a generation run did (or, in a dry run, would do) to a file.
+ * Unchanged files are not rewritten, so their modification time is kept.
+ */
+export type GeneratedFileStatus = "created" | "updated" | "unchanged" | "deleted";
+
+/**
+ * Per-file outcome of a generation run.
+ */
+export interface GeneratedFileResult {
+  /** Absolute file path */
+  path: string;
+  status: GeneratedFileStatus;
+}
+
+/**
+ * A file change in a generation plan.
+ */
+export interface PlannedFileChange {
+  /** Absolute file path */
+  path: string;
+  /** Generated file content */
+  content: string;
+  /** Unified diff against the existing file (modifications only) */
+  diff?: string;
+}
+
+/**
+ * A symbolic link the generator creates or replaces.
+ */
+export interface PlannedSymlink {
+  /** Absolute path the link points to */
+  target: string;
+  /** Absolute path of the link itself */
+  path: string;
+}
+
+/**
+ * Changes needed to bring the wrappers package in line with the manifest.
+ */
+export interface GenerationPlan {
+  /** Files that do not exist yet */
+  create: PlannedFileChange[];
+  /** Existing files whose content changes */
+  modify: PlannedFileChange[];
+  /** Existing files whose content is already up to date */
+  unchanged: PlannedFileChange[];
+  /** Stale files that are removed */
+  delete: string[];
+  /** Symlinks that are created or replaced */
+  symlinks: PlannedSymlink[];
+}
+
+/**
+ * Result of comparing the generated wrappers on disk with the manifest.
+ */
+export interface CheckAngularWrappersResult {
+  /** Parsed component metadata */
+  components: ComponentMeta[];
+  /** Root directory of the checked wrappers */
+  wrappersRoot: string;
   /** Path to the manifest that was used */
   manifestPath: string;
+  /** True when no file is missing, stale or orphaned */
+  upToDate: boolean;
+  /** Generated files that do not exist on disk */
+  missing: string[];
+  /** Generated files whose content differs, with a diff against disk */
+  stale: PlannedFileChange[];
+  /** Wrapper files on disk for components no longer in the manifest */
+  orphaned: string[];
 }
 
 /**
@@ -69,6 +568,145 @@ export interface GenerateAngularWrappersFromCemOptions
   extends RunCemAnalyzeOptions,
     Omit<GenerateAngularWrappersOptions, "manifestPath"> {}
 
+/**
+ * Options for generating wrappers for an installed component package.
+ */
+export interface GenerateAngularWrappersFromPackageOptions
+  extends Omit<GenerateAngularWrappersOptions, "manifestPath"> {
+  /**
+   * Package resolved from node_modules (searched from `cwd`), whose
+   * package.json references the manifest through its `customElements` field
+   */
+  packageName: string;
+}
+
+/**
+ * Generator options accepted in a cem-angular config file.
+ */
+export type GeneratorConfigOptions = GenerateAngularWrappersFromCemOptions &
+  Partial<Pick<GenerateAngularWrappersOptions, "manifestPath">>;
+
+/**
+ * Shape of a cem-angular config file. Top-level options are shared by all
+ * named targets; a target's own options take precedence.
+ */
+export interface GeneratorConfigFile extends GeneratorConfigOptions {
+  /** Named generation targets, e.g. one per component library */
+  targets?: Record<string, GeneratorConfigOptions>;
+}
+
+/**
+ * Options for locating and loading a cem-angular config file.
+ */
+export interface LoadGeneratorConfigOptions {
+  /** Explicit config file path; disables discovery */
+  configPath?: string;
+  /** Manifest whose directory is searched first */
+  manifestPath?: string;
+  /** Directory searched after the manifest directory (default: process.cwd()) */
+  cwd?: string;
+  /** Named target to select from the config file */
+  target?: string;
+}
+
+/**
+ * A loaded and validated cem-angular config file.
+ */
+export interface LoadedGeneratorConfig {
+  /** Absolute path of the config file */
+  configPath: string;
+  /** Selected target, if any */
+  target?: string;
+  /** Options with relative paths resolved against the config file directory */
+  options: GeneratorConfigOptions;
+}
+
+/**
+ * Options for watching a manifest and regenerating wrappers on change.
+ */
+export interface WatchAngularWrappersOptions
+  extends GenerateAngularWrappersFromCemOptions {
+  /**
+   * Manifest to watch (default: the analyzer output,
+   * `<cwd>/<outDir>/custom-elements.json`)
+   */
+  manifestPath?: string;
+  /**
+   * Component source directories to watch recursively. Changes re-run the
+   * analyzer before regenerating.
+   */
+  sourceDirs?: string[];
+  /** Quiet period before a burst of changes is processed (default: 100) */
+  debounceMs?: number;
+  /** Receives the per-cycle summary lines (default: console) */
+  logger?: WatchLogger;
+  /** Called after every regeneration cycle, including failed ones */
+  onCycle?: (summary: WatchCycleSummary) => void;
+}
+
+/**
+ * Minimal logger used by watch mode.
+ */
+export interface WatchLogger {
+  log(message: string): void;
+  warn(message: string): void;
+}
+
+/**
+ * Components affected by one watch cycle, identified by tag name.
+ */
+export interface WatchCycleSummary {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  /** Error that aborted the cycle; the previous wrappers are kept */
+  error?: Error;
+}
+
+/**
+ * Handle of a running watch.
+ */
+export interface AngularWrappersWatcher {
+  /** Stops watching and cancels any pending cycle */
+  close(): void;
+}
+
+/**
+ * Reference to a declaration in a manifest (e.g., a superclass or mixin).
+ */
+export interface ManifestReference {
+  /** Declaration name */
+  name: string;
+  /** Module path the declaration lives in */
+  module?: string;
+  /** Package the declaration belongs to, if not the primary manifest */
+  package?: string;
+}
+
+/**
+ * A type used by a component's API, with the location it is imported from.
+ */
+export interface ComponentTypeReference extends ManifestReference {
+  /** Import specifier; the component library root when undefined */
+  importPath?: string;
+  /** True when the manifest neither references nor declares the type */
+  unresolved?: boolean;
+}
+
+/**
+ * A type name the wrapper emits as a different type.
+ */
+export interface ComponentTypeFallback {
+  /** Original type name */
+  name: string;
+  /** Type text emitted instead */
+  replacement: string;
+  /** True when widened because it was unresolved, false for configured replacements */
+  widened: boolean;
+  /** Members, attributes, events and methods (`name()`) using the type */
+  usedBy: string[];
+}
+
 /**
  * Represents a component property or field.
  */
@@ -81,6 +719,70 @@ export interface ComponentMember {
   optional: boolean;
   /** JSDoc description */
   description?: string;
+  /** Attribute the property is linked to, if any */
+  attribute?: string;
+  /** Wrapper input name when the property name collides; aliased to the property name */
+  inputName?: string;
+  /** Superclass or mixin the property was inherited from */
+  inheritedFrom?: ManifestReference;
+}
+
+/**
+ * Metadata for a named or default slot.
+ */
+export interface ComponentSlot {
+  /** Slot name; an empty string for the default slot */
+  name: string;
+  /** JSDoc description */
+  description?: string;
+  /** Superclass or mixin the slot was inherited from */
+  inheritedFrom?: ManifestReference;
+}
+
+/**
+ * Metadata for a CSS custom property used for theming.
+ */
+export interface ComponentCssProperty {
+  /** Property name, including the leading `--` */
+  name: string;
+  /** JSDoc description */
+  description?: string;
+  /** CSS syntax of the value, e.g. "<color>" */
+  syntax?: string;
+  /** Default value */
+  default?: string;
+  /** Superclass or mixin the property was inherited from */
+  inheritedFrom?: ManifestReference;
+}
+
+/**
+ * Metadata for a CSS shadow part.
+ */
+export interface ComponentCssPart {
+  /** Part name */
+  name: string;
+  /** JSDoc description */
+  description?: string;
+  /** Superclass or mixin the part was inherited from */
+  inheritedFrom?: ManifestReference;
+}
+
+/**
+ * Metadata for a custom element attribute.
+ */
+export interface ComponentAttribute {
+  /** Attribute name */
+  name: string;
+  /** Property the attribute is linked to, if any */
+  fieldName?: string;
+  /** TypeScript type of the attribute value */
+  type: string;
+  /** Wrapper input name when the derived name collides; aliased to the attribute name */
+  inputName?: string;
+  /** JSDoc description */
+  description?: string;
+  /** Superclass or mixin the attribute was inherited from */
+  inheritedFrom?: ManifestReference;
 }
 
 /**
@@ -95,6 +797,44 @@ export interface ComponentEvent {
   type: string;
   /** JSDoc description */
   description?: string;
+  /** Superclass or mixin the event was inherited from */
+  inheritedFrom?: ManifestReference;
+}
+
+/**
+ * Represents a parameter of a public component method.
+ */
+export interface ComponentMethodParameter {
+  /** Parameter name */
+  name: string;
+  /** TypeScript type annotation */
+  type: string;
+  /** Whether the parameter is optional */
+  optional: boolean;
+  /** Whether this is a rest parameter */
+  rest: boolean;
+  /** JSDoc description */
+  description?: string;
+}
+
+/**
+ * Represents a public component method.
+ */
+export interface ComponentMethod {
+  /** Method name */
+  name: string;
+  /** Wrapper method name when the method name collides */
+  wrapperName?: string;
+  /** Method parameters in declaration order */
+  parameters: ComponentMethodParameter[];
+  /** TypeScript return type (e.g., "Promise<void>") */
+  returnType: string;
+  /** JSDoc description of the return value */
+  returnDescription?: string;
+  /** JSDoc description */
+  description?: string;
+  /** Superclass or mixin the method was inherited from */
+  inheritedFrom?: ManifestReference;
 }
 
 /**
@@ -111,28 +851,168 @@ export interface ComponentMeta {
   fileName: string;
   /** Source module path from manifest */
   sourceModule?: string;
+  /** Import path of the package the component comes from */
+  componentLibraryImport?: string;
+  /**
+   * Name the element class is exported under, from the manifest's `js`
+   * exports; the declaration name when it has none
+   */
+  elementClassName: string;
+  /** Module the element class is exported from */
+  elementModule?: string;
+  /**
+   * Import specifier of the element class mapped through `elementImportPaths`.
+   * When unset, lazy registration imports the component library root and
+   * scoped registration the element module's path within the library.
+   */
+  elementImportPath?: string;
+  /**
+   * Module defining the element through a `custom-element-definition`
+   * export, or the source module when the manifest has none
+   */
+  definitionModule?: string;
+  /**
+   * Import specifier of the defining module mapped through
+   * `elementImportPaths`; import registration falls back to the module's path
+   * within the component library when unset
+   */
+  definitionImportPath?: string;
   /** Component description */
   description?: string;
   /** Component properties/fields */
   members: ComponentMember[];
+  /** Attributes, linked to members through fieldName where available */
+  attributes: ComponentAttribute[];
+  /** Slots content can be projected into */
+  slots: ComponentSlot[];
+  /** CSS custom properties the component can be themed with */
+  cssProperties: ComponentCssProperty[];
+  /** CSS shadow parts exposed for styling */
+  cssParts: ComponentCssPart[];
   /** Component events */
   events: ComponentEvent[];
+  /** Public component methods */
+  methods: ComponentMethod[];
+  /** Form control binding, set when a ControlValueAccessor is generated */
+  formControl?: ComponentFormControl;
+  /** Non-global types used by members, attributes, events and methods */
+  typeReferences: ComponentTypeReference[];
+  /** Types replaced or widened by the type fallback policy */
+  typeFallbacks: ComponentTypeFallback[];
 }
 
 /**
- * Internal options for augmented Angular output generation.
+ * Resolved form control binding for a component.
  */
-export interface AugmentAngularOutputOptions {
+export interface ComponentFormControl {
+  /** Property holding the control value */
+  valueProperty: string;
+  /** TypeScript type of the control value */
+  valueType: string;
+  /** Event fired when the value changes */
+  changeEvent: string;
+  /** Event fired when the control is touched */
+  touchEvent: string;
+  /** Property toggled by setDisabledState */
+  disabledProperty: string;
+}
+
+/**
+ * Options for parsing a Custom Elements Manifest.
+ */
+export interface ParseManifestOptions {
+  /** Form control detection settings (default: false) */
+  formControls?: boolean | FormControlOptions;
+  /** Manifests of other packages, keyed by package name, used to resolve inherited members */
+  referenceManifests?: Record<string, string>;
+  /** Import specifiers for types, keyed by module path prefix */
+  typeImportPaths?: Record<string, string>;
+  /** Import specifiers for element classes, keyed by module path prefix */
+  elementImportPaths?: Record<string, string>;
+  /** Naming strategy for selectors, class names, file names and outputs */
+  naming?: NamingStrategy;
+  /** Transforms the manifest after it is read */
+  transformManifest?: (manifest: Record<string, any>) => Record<string, any>;
+}
+
+/**
+ * Internal description of a file the generator produces.
+ */
+export interface GeneratedFile {
+  /** Absolute file path */
+  path: string;
+  /** File content */
+  content: string;
+  /** Whether an existing file is replaced; scaffolding files are only created */
+  overwrite: boolean;
+}
+
+/**
+ * Internal description of everything a generation run produces.
+ */
+export interface GenerationOutput {
+  /** Files to write */
+  files: GeneratedFile[];
+  /** Stale files to remove */
+  deletions: string[];
+  /** Symlinks that should exist */
+  symlinks: PlannedSymlink[];
+}
+
+/**
+ * Internal result of running the generation pipeline in memory.
+ */
+export interface WrapperGeneration {
   components: ComponentMeta[];
-  componentsRoot: string;
   wrappersRoot: string;
   manifestPath: string;
+  output: GenerationOutput;
+}
+
+/**
+ * Internal description of a component package with every option resolved.
+ */
+export interface ComponentLibrary {
+  manifestPath: string;
+  componentsRoot: string;
   componentLibraryImport: string;
   componentLibraryVersion: string;
   loaderImportPath: string;
+  wrapperSelectorPrefix: string;
+  typeImportPaths?: Record<string, string>;
+  elementImportPaths?: Record<string, string>;
+}
+
+/**
+ * Internal description of the helper directive generated for a named slot.
+ */
+export interface SlotDirectiveMeta {
+  /** Slot the directive assigns content to */
+  slot: ComponentSlot;
+  /** Attribute selector, e.g. "wcMyCardHeader" */
+  attributeName: string;
+  /** Directive class name */
+  className: string;
+}
+
+/**
+ * Internal options for augmented Angular output generation.
+ */
+export interface AugmentAngularOutputOptions {
+  components: ComponentMeta[];
+  libraries: ComponentLibrary[];
+  wrappersRoot: string;
+  registration: ElementRegistration;
   linkNodeModulesFrom?: string;
   angularPackageName: string;
   angularPeerDependency: string;
   tslibVersion: string;
   standalone: boolean;
+  signals: boolean;
+  slotDirectives: boolean;
+  cssVars: boolean;
+  usesForms: boolean;
+  plugins: GeneratorPlugin[];
+  pluginContext: GeneratorPluginContext;
+  templates?: WrapperTemplates;
 }
@@ -0,0 +1,233 @@
+import { existsSync, mkdirSync, watch } from "node:fs";
+import type { FSWatcher } from "node:fs";
+import { dirname, isAbsolute, join, relative, resolve } from "node:path";
+
+import { applyGenerationPlan } from "./file-system";
+import { planAngularWrappers, runCemAnalyze } from "./generator";
+import { runAfterGenerate } from "./plugins";
+import type {
+  AngularWrappersWatcher,
+  ComponentMeta,
+  WatchAngularWrappersOptions,
+  WatchCycleSummary,
+} from "./types";
+
+const isWithin = (parent: string, child: string): boolean => {
+  const rel = relative(parent, child);
+  return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+};
+
+/**
+ * Compares component metadata of two runs by tag name.
+ */
+const diffComponents = (
+  previous: Map<string, string>,
+  components: ComponentMeta[]
+): WatchCycleSummary => {
+  const summary: WatchCycleSummary = { added: [], updated: [], removed: [] };
+  const current = new Set<string>();
+
+  for (const component of components) {
+    current.add(component.tagName);
+    const before = previous.get(component.tagName);
+    if (before === undefined) {
+      summary.added.push(component.tagName);
+    } else if (before !== JSON.stringify(component)) {
+      summary.updated.push(component.tagName);
+    }
+  }
+
+  for (const tagName of previous.keys()) {
+    if (!current.has(tagName)) {
+      summary.removed.push(tagName);
+    }
+  }
+
+  return summary;
+};
+
+/**
+ * Formats a cycle summary as a single log line.
+ */
+const formatSummary = (summary: WatchCycleSummary): string => {
+  const groups = (["added", "updated", "removed"] as const)
+    .filter((key) => summary[key].length > 0)
+    .map((key) => `${key} ${summary[key].join(", ")}`);
+  return `Wrappers regenerated: ${groups.join("; ")}`;
+};
+
+/**
+ * Watches a Custom Elements Manifest and regenerates the Angular wrappers
+ * whenever it changes. With `sourceDirs`, source changes re-run the analyzer
+ * first. Bursts of file events are debounced into one cycle, and wrappers are
+ * only rewritten when the metadata of a component actually changed. With
+ * `dryRun`, cycles are computed and logged but nothing is written.
+ *
+ * A manifest that fails to parse (for example while it is being written)
+ * aborts the cycle with a warning; the previous wrappers stay in place and
+ * the next change triggers another attempt.
+ *
+ * @param options - Generation options plus watch settings
+ * @returns Watcher handle; call close() to stop watching
+ */
+export const watchAngularWrappers = (
+  options: WatchAngularWrappersOptions
+): AngularWrappersWatcher => {
+  const {
+    sourceDirs = [],
+    debounceMs = 100,
+    logger = console,
+    onCycle,
+    ...generatorOptions
+  } = options;
+
+  const manifestPath = resolve(
+    options.manifestPath ??
+      join(
+        options.cwd ?? process.cwd(),
+        options.outDir ?? "dist",
+        "custom-elements.json"
+      )
+  );
+  const manifestDir = dirname(manifestPath);
+
+  let previous: Map<string, string> | undefined;
+  let wrappersRoot: string | undefined;
+  let pendingAnalyze = false;
+  let timer: unknown;
+  let closed = false;
+
+  const runCycle = (analyze: boolean) => {
+    let summary: WatchCycleSummary;
+    try {
+      if (analyze) {
+        runCemAnalyze(generatorOptions);
+      }
+
+      const cycleOptions = { ...generatorOptions, manifestPath };
+      const result = planAngularWrappers(cycleOptions);
+      wrappersRoot = result.wrappersRoot;
+      summary = diffComponents(previous ?? new Map(), result.components);
+
+      // Wrappers are written, and afterGenerate hooks run, only for cycles
+      // that changed a component
+      const changed =
+        summary.added.length + summary.updated.length + summary.removed.length;
+      if (changed > 0) {
+        if (!generatorOptions.dryRun) {
+          applyGenerationPlan(result.plan);
+        }
+        runAfterGenerate(generatorOptions.plugins ?? [], result, {
+          options: cycleOptions,
+          wrappersRoot: result.wrappersRoot,
+        });
+        logger.log(
+          `${
+            previous
+              ? formatSummary(summary)
+              : `Generated ${result.components.length} wrapper(s) in ${result.wrappersRoot}`
+          }${generatorOptions.dryRun ? " (dry run, nothing written)" : ""}`
+        );
+      }
+
+      previous = new Map(
+        result.components.map((component) => [
+          component.tagName,
+          JSON.stringify(component),
+        ])
+      );
+    } catch (error) {
+      summary = {
+        added: [],
+        updated: [],
+        removed: [],
+        error: error as Error,
+      };
+      logger.warn(
+        `Skipping regeneration: ${(error as Error).message ?? error}`
+      );
+    }
+
+    onCycle?.(summary);
+  };
+
+  const schedule = (analyze: boolean) => {
+    pendingAnalyze ||= analyze;
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      if (closed) return;
+      const shouldAnalyze = pendingAnalyze;
+      pendingAnalyze = false;
+      runCycle(shouldAnalyze);
+    }, debounceMs);
+  };
+
+  // Check the source directories before any watcher keeps the process alive
+  const sourceRoots = sourceDirs.map((sourceDir) => resolve(sourceDir));
+  const missingRoot = sourceRoots.find((root) => !existsSync(root));
+  if (missingRoot) {
+    throw new Error(`Watched source directory ${missingRoot} does not exist.`);
+  }
+
+  // The directory is watched rather than the file so that manifests replaced
+  // by rename (as most writers do) keep being picked up. Dry runs create
+  // nothing and watch the nearest existing parent until the manifest appears.
+  let watchedDir = manifestDir;
+  if (!existsSync(manifestDir)) {
+    if (generatorOptions.dryRun) {
+      while (!existsSync(watchedDir)) {
+        watchedDir = dirname(watchedDir);
+      }
+    } else {
+      mkdirSync(manifestDir, { recursive: true });
+    }
+  }
+  const watchers: FSWatcher[] = [
+    watch(
+      watchedDir,
+      { persistent: true, recursive: watchedDir !== manifestDir },
+      (_eventType, filename) => {
+        if (filename && resolve(watchedDir, filename) === manifestPath) {
+          schedule(false);
+        }
+      }
+    ),
+  ];
+
+  for (const root of sourceRoots) {
+    watchers.push(
+      watch(root, { recursive: true, persistent: true }, (_eventType, filename) => {
+        if (!filename) return;
+        const changedPath = resolve(root, filename);
+        // Ignore the analyzer's and generator's own output
+        if (
+          isWithin(manifestDir, changedPath) ||
+          (wrappersRoot && isWithin(wrappersRoot, changedPath)) ||
+          changedPath.split(/[\\/]/).includes("node_modules")
+        ) {
+          return;
+        }
+        schedule(true);
+      })
+    );
+  }
+
+  watchers.forEach((watcher) =>
+    watcher.on("error", (error) =>
+      logger.warn(`Watcher error: ${error.message}`)
+    )
+  );
+
+  // Initial generation; analyze first when sources are watched
+  if (sourceDirs.length > 0 || existsSync(manifestPath)) {
+    runCycle(sourceDirs.length > 0);
+  }
+
+  return {
+    close: () => {
+      closed = true;
+      clearTimeout(timer);
+      watchers.forEach((watcher) => watcher.close());
+    },
+  };
+};
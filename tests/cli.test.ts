@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EXIT_CODES, parseCliArgs, runCli } from '../src/cli';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('cem-angular CLI', () => {
+  let testDir: string;
+  let manifestPath: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `cem-cli-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+    manifestPath = join(testDir, 'custom-elements.json');
+    writeFileSync(
+      manifestPath,
+      readFileSync(join(__dirname, 'fixtures', 'simple-component.json'), 'utf-8')
+    );
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('Argument Parsing', () => {
+    it('should map flags onto generator options', () => {
+      const { command, options } = parseCliArgs([
+        'generate',
+        '--manifest', 'dist/custom-elements.json',
+        '--library-import=my-components',
+        '--selector-prefix', 'app-',
+        '--no-standalone',
+        '--signals',
+        '--reference-manifest', '@acme/core=core.json',
+      ]);
+
+      expect(command).toBe('generate');
+      expect(options).toEqual({
+        manifestPath: 'dist/custom-elements.json',
+        componentLibraryImport: 'my-components',
+        wrapperSelectorPrefix: 'app-',
+        standalone: false,
+        signals: true,
+        referenceManifests: { '@acme/core': 'core.json' },
+      });
+    });
+
+    it('should collect repeated watch sources', () => {
+      const { options } = parseCliArgs([
+        'run',
+        '--watch',
+        '--watch-source', 'src/components',
+        '--watch-source=src/mixins',
+      ]);
+
+      expect(options).toEqual({
+        watch: true,
+        sourceDirs: ['src/components', 'src/mixins'],
+      });
+    });
+
+    it('should reject unknown flags and missing values', () => {
+      expect(() => parseCliArgs(['run', '--bogus'])).toThrow('Unknown option "--bogus".');
+      expect(() => parseCliArgs(['run', '--wrappers-root'])).toThrow(
+        'Option "--wrappers-root" requires a value.'
+      );
+      expect(() => parseCliArgs(['run', '--no-wrappers-root'])).toThrow(
+        'Unknown option "--no-wrappers-root".'
+      );
+    });
+  });
+
+  describe('Commands', () => {
+    it('should print help', async () => {
+      expect(await runCli(['--help'])).toBe(EXIT_CODES.success);
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Usage: cem-angular <command> [options]')
+      );
+    });
+
+    it('should return a usage error without a command', async () => {
+      expect(await runCli([])).toBe(EXIT_CODES.usage);
+      expect(await runCli(['publish'])).toBe(EXIT_CODES.usage);
+      expect(await runCli(['generate', '--bogus'])).toBe(EXIT_CODES.usage);
+    });
+
+    it('should require a manifest for generate', async () => {
+      expect(await runCli(['generate'])).toBe(EXIT_CODES.usage);
+      expect(console.error).toHaveBeenCalledWith(
+        'The "generate" command requires --manifest <path>.'
+      );
+    });
+
+    it('should generate wrappers from an existing manifest', async () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      const exitCode = await runCli([
+        'generate',
+        '--manifest', manifestPath,
+        '--wrappers-root', wrappersRoot,
+        '--package-name', '@test/cli-wrappers',
+      ]);
+
+      expect(exitCode).toBe(EXIT_CODES.success);
+      expect(existsSync(join(wrappersRoot, 'src', 'lib', 'wc-my-button.component.ts'))).toBe(true);
+
+      const pkg = JSON.parse(readFileSync(join(wrappersRoot, 'package.json'), 'utf-8'));
+      expect(pkg.name).toBe('@test/cli-wrappers');
+    });
+
+    it('should print the plan without writing files on --dry-run', async () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      const exitCode = await runCli([
+        'generate',
+        '--manifest', manifestPath,
+        '--wrappers-root', wrappersRoot,
+        '--dry-run',
+      ]);
+
+      expect(exitCode).toBe(EXIT_CODES.success);
+      expect(existsSync(wrappersRoot)).toBe(false);
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining(
+          `  create  ${join(wrappersRoot, 'src', 'lib', 'wc-my-button.component.ts')}`
+        )
+      );
+    });
+
+    it('should list unresolved types after generating', async () => {
+      writeFileSync(
+        manifestPath,
+        readFileSync(join(__dirname, 'fixtures', 'type-references.json'), 'utf-8')
+      );
+      const exitCode = await runCli([
+        'generate',
+        '--manifest', manifestPath,
+        '--wrappers-root', join(testDir, 'angular-wrappers'),
+        '--type-import-path', 'src/=ref-lib/dist/',
+      ]);
+
+      expect(exitCode).toBe(EXIT_CODES.success);
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'Unresolved types:\n  my-select: SelectDetail (imported from the library root)'
+        )
+      );
+    });
+
+    it('should reject --watch for commands that cannot watch', async () => {
+      expect(await runCli(['check', '--watch'])).toBe(EXIT_CODES.usage);
+      expect(console.error).toHaveBeenCalledWith('The "check" command does not support --watch.');
+    });
+
+    it('should fail the check when wrappers are out of date', async () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      const args = ['check', '--manifest', manifestPath, '--wrappers-root', wrappersRoot];
+
+      expect(await runCli(args)).toBe(EXIT_CODES.failure);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining(
+          `  missing   ${join(wrappersRoot, 'src', 'lib', 'wc-my-button.component.ts')}`
+        )
+      );
+
+      await runCli(['generate', '--manifest', manifestPath, '--wrappers-root', wrappersRoot]);
+      expect(await runCli(args)).toBe(EXIT_CODES.success);
+    });
+
+    it('should fail the check when analysis is skipped', async () => {
+      const exitCode = await runCli(['check', '--cwd', testDir, '--skip-analyze']);
+
+      expect(exitCode).toBe(EXIT_CODES.failure);
+      expect(console.error).toHaveBeenCalledWith(
+        'Analysis skipped; cannot check the wrappers. Pass --manifest to check against an existing manifest.'
+      );
+    });
+
+    it('should report generation failures with a failure exit code', async () => {
+      const exitCode = await runCli([
+        'generate',
+        '--manifest', join(testDir, 'missing.json'),
+        '--wrappers-root', join(testDir, 'angular-wrappers'),
+      ]);
+
+      expect(exitCode).toBe(EXIT_CODES.failure);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('cem-angular generate failed:')
+      );
+    });
+
+    it('should read options from a config file target', async () => {
+      const configPath = join(testDir, 'cem-angular.config.json');
+      writeFileSync(
+        configPath,
+        JSON.stringify({
+          wrapperSelectorPrefix: 'acme-',
+          targets: {
+            buttons: {
+              manifestPath: './custom-elements.json',
+              wrappersRoot: './buttons-wrappers',
+            },
+          },
+        })
+      );
+
+      const exitCode = await runCli(['generate', '--config', configPath, '--target', 'buttons']);
+
+      expect(exitCode).toBe(EXIT_CODES.success);
+      expect(
+        existsSync(join(testDir, 'buttons-wrappers', 'src', 'lib', 'acme-my-button.component.ts'))
+      ).toBe(true);
+    });
+
+    it('should report invalid config files with a failure exit code', async () => {
+      const configPath = join(testDir, 'cem-angular.config.json');
+      writeFileSync(configPath, JSON.stringify({ standalone: 'yes' }));
+
+      const exitCode = await runCli(['generate', '--config', configPath]);
+
+      expect(exitCode).toBe(EXIT_CODES.failure);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('Option "standalone" must be boolean, got string.')
+      );
+    });
+
+    it('should skip analysis when requested', async () => {
+      expect(await runCli(['run', '--skip-analyze'])).toBe(EXIT_CODES.success);
+      expect(console.log).toHaveBeenCalledWith('Analysis skipped; no wrappers generated.');
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import {
+  findGeneratorConfig,
+  loadGeneratorConfig,
+  resolveGeneratorOptions,
+} from '../src/index';
+import { spawnSync } from 'node:child_process';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('generator config files', () => {
+  let testDir: string;
+  let manifestDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `cem-config-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    manifestDir = join(testDir, 'dist');
+    mkdirSync(manifestDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('Discovery', () => {
+    it('should prefer a config next to the manifest over one in cwd', () => {
+      writeFileSync(join(testDir, 'cem-angular.config.json'), '{}');
+      expect(
+        findGeneratorConfig({ manifestPath: join(manifestDir, 'custom-elements.json'), cwd: testDir })
+      ).toBe(join(testDir, 'cem-angular.config.json'));
+
+      writeFileSync(join(manifestDir, 'cem-angular.config.mjs'), 'export default {};');
+      expect(
+        findGeneratorConfig({ manifestPath: join(manifestDir, 'custom-elements.json'), cwd: testDir })
+      ).toBe(join(manifestDir, 'cem-angular.config.mjs'));
+    });
+
+    it('should return undefined when no config exists', async () => {
+      expect(findGeneratorConfig({ cwd: testDir })).toBeUndefined();
+      expect(await loadGeneratorConfig({ cwd: testDir })).toBeUndefined();
+    });
+  });
+
+  describe('Loading', () => {
+    it('should load JSON configs and resolve paths against the config directory', async () => {
+      writeFileSync(
+        join(testDir, 'cem-angular.config.json'),
+        JSON.stringify({
+          manifestPath: 'dist/custom-elements.json',
+          wrappersRoot: '../angular-wrappers',
+          angularPackageName: '@acme/angular',
+          referenceManifests: { '@acme/core': 'core/custom-elements.json' },
+        })
+      );
+
+      const loaded = await loadGeneratorConfig({ cwd: testDir });
+
+      expect(loaded?.configPath).toBe(join(testDir, 'cem-angular.config.json'));
+      expect(loaded?.options).toEqual({
+        manifestPath: join(testDir, 'dist', 'custom-elements.json'),
+        wrappersRoot: join(testDir, '..', 'angular-wrappers'),
+        angularPackageName: '@acme/angular',
+        referenceManifests: { '@acme/core': join(testDir, 'core', 'custom-elements.json') },
+      });
+    });
+
+    it('should merge the selected target over shared options', async () => {
+      writeFileSync(
+        join(testDir, 'cem-angular.config.json'),
+        JSON.stringify({
+          wrapperSelectorPrefix: 'acme-',
+          standalone: false,
+          targets: {
+            forms: { wrapperSelectorPrefix: 'acme-form-', formControls: true },
+            layout: { angularPackageName: '@acme/layout' },
+          },
+        })
+      );
+
+      const loaded = await loadGeneratorConfig({ cwd: testDir, target: 'forms' });
+
+      expect(loaded?.target).toBe('forms');
+      expect(loaded?.options).toEqual({
+        wrapperSelectorPrefix: 'acme-form-',
+        standalone: false,
+        formControls: true,
+      });
+
+      await expect(loadGeneratorConfig({ cwd: testDir, target: 'icons' })).rejects.toThrow(
+        'has no target "icons" (available: forms, layout).'
+      );
+    });
+
+    it('should report every unknown or mistyped key', async () => {
+      writeFileSync(
+        join(testDir, 'cem-angular.config.json'),
+        JSON.stringify({
+          wraperSelectorPrefix: 'acme-',
+          standalone: 'true',
+          targets: { forms: { formControls: 'yes' } },
+        })
+      );
+
+      await expect(loadGeneratorConfig({ cwd: testDir })).rejects.toThrow(
+        [
+          '  - Unknown option "wraperSelectorPrefix".',
+          '  - Option "standalone" must be boolean, got string.',
+          '  - Option "targets.forms.formControls" must be boolean or object, got string.',
+        ].join('\n')
+      );
+    });
+
+    it('should report unknown or mistyped nested keys', async () => {
+      writeFileSync(
+        join(testDir, 'cem-angular.config.json'),
+        JSON.stringify({
+          naming: { selectr: '{tagName}' },
+          typeReplacements: { Size: 1 },
+          formControls: { mappings: { 'my-input': { valueProp: 'value' } } },
+          manifests: [{ manifestPath: 'core.json', wrapperSelectorPrefix: 'ac-' }],
+          targets: { forms: { manifestPackages: ['@acme/*', 2] } },
+        })
+      );
+
+      await expect(loadGeneratorConfig({ cwd: testDir })).rejects.toThrow(
+        [
+          '  - Unknown option "naming.selectr".',
+          '  - Option "typeReplacements.Size" must be string, got number.',
+          '  - Unknown option "formControls.mappings.my-input.valueProp".',
+          '  - Option "manifests[0].componentLibraryImport" is required.',
+          '  - Option "targets.forms.manifestPackages[1]" must be string, got number.',
+        ].join('\n')
+      );
+    });
+
+    it('should report malformed JSON', async () => {
+      writeFileSync(join(testDir, 'cem-angular.config.json'), '{ invalid');
+
+      await expect(loadGeneratorConfig({ cwd: testDir })).rejects.toThrow(
+        'Failed to load config file'
+      );
+    });
+  });
+
+  describe('Module Configs', () => {
+    // Vitest cannot run the native dynamic import the loader relies on, so
+    // .mjs configs are loaded by the compiled package in a separate process
+    let distDir: string;
+
+    const loadInNode = (cwd: string) =>
+      spawnSync(
+        process.execPath,
+        [
+          '-e',
+          `require(${JSON.stringify(join(distDir, 'config.js'))})
+            .loadGeneratorConfig({ cwd: ${JSON.stringify(cwd)} })
+            .then((loaded) => console.log(JSON.stringify(loaded.options)))`,
+        ],
+        { encoding: 'utf-8' }
+      );
+
+    beforeAll(() => {
+      distDir = join(tmpdir(), `cem-config-dist-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+      const build = spawnSync(
+        process.execPath,
+        [
+          join(__dirname, '..', 'node_modules', 'typescript', 'bin', 'tsc'),
+          '-p', join(__dirname, '..', 'tsconfig.json'),
+          '--outDir', distDir,
+          '--declaration', 'false',
+          '--declarationMap', 'false',
+          '--sourceMap', 'false',
+        ],
+        { encoding: 'utf-8' }
+      );
+      expect(build.status, build.stdout).toBe(0);
+    }, 120_000);
+
+    afterAll(() => {
+      rmSync(distDir, { recursive: true, force: true });
+    });
+
+    it('should load .mjs configs with a default export', () => {
+      writeFileSync(
+        join(testDir, 'cem-angular.config.mjs'),
+        "export default { wrapperSelectorPrefix: 'acme-', signals: true };"
+      );
+
+      const run = loadInNode(testDir);
+
+      expect(run.stderr).toBe('');
+      expect(JSON.parse(run.stdout)).toEqual({ wrapperSelectorPrefix: 'acme-', signals: true });
+    });
+
+    it('should report .mjs configs that fail to load', () => {
+      writeFileSync(join(testDir, 'cem-angular.config.mjs'), 'export default {');
+
+      const run = loadInNode(testDir);
+
+      expect(run.status).not.toBe(0);
+      expect(run.stderr).toContain(
+        `Failed to load config file ${join(testDir, 'cem-angular.config.mjs')}:`
+      );
+    });
+  });
+
+  describe('Merging', () => {
+    it('should let programmatic overrides win over config values', async () => {
+      writeFileSync(
+        join(manifestDir, 'cem-angular.config.json'),
+        JSON.stringify({ wrapperSelectorPrefix: 'acme-', angularPackageName: '@acme/angular' })
+      );
+
+      const options = await resolveGeneratorOptions({
+        manifestPath: join(manifestDir, 'custom-elements.json'),
+        angularPackageName: '@acme/override',
+        standalone: undefined,
+      });
+
+      expect(options).toEqual({
+        manifestPath: join(manifestDir, 'custom-elements.json'),
+        wrapperSelectorPrefix: 'acme-',
+        angularPackageName: '@acme/override',
+      });
+    });
+  });
+});
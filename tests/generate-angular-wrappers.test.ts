@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { generateAngularWrappers } from '../src/index';
-import { existsSync, lstatSync, mkdirSync, readFileSync, readlinkSync, rmSync, writeFileSync } from 'node:fs';
+import { checkAngularWrappers, generateAngularWrappers, generateAngularWrappersFromPackage } from '../src/index';
+import type { GeneratorPlugin } from '../src/index';
+import { existsSync, lstatSync, mkdirSync, readFileSync, readlinkSync, rmSync, statSync, utimesSync, writeFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 
@@ -63,7 +64,7 @@ describe('generateAngularWrappers', () => {
       expect(content).toContain("selector: 'wc-my-button'");
       expect(content).toContain('export class WcMyButtonComponent');
       expect(content).toContain('@Input() label: string;');
-      expect(content).toContain('@Input() disabled?: boolean;');
+      expect(content).toContain('@Input({ transform: booleanAttribute }) disabled?: boolean;');
       expect(content).toContain('@Output() buttonClick = new EventEmitter');
     });
 
@@ -338,6 +339,51 @@ describe('generateAngularWrappers', () => {
       expect(existsSync(cardFile)).toBe(false);
       expect(existsSync(tooltipFile)).toBe(false);
     });
+
+    it('should report per-file status and only rewrite changed files', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      const manifest = JSON.parse(
+        readFileSync(join(__dirname, 'fixtures', 'multiple-components.json'), 'utf-8')
+      );
+      writeFileSync(manifestPath, JSON.stringify(manifest));
+
+      const libDir = join(wrappersRoot, 'src', 'lib');
+      const initial = generateAngularWrappers({ manifestPath, wrappersRoot });
+      expect(initial.files.every((file) => file.status === 'created')).toBe(true);
+
+      // Backdate every file so a rewrite would be visible in the mtime
+      const backdated = new Date('2020-01-01T00:00:00Z');
+      const cardFile = join(libDir, 'wc-my-card.component.ts');
+      const badgeFile = join(libDir, 'wc-my-badge.component.ts');
+      utimesSync(cardFile, backdated, backdated);
+      utimesSync(badgeFile, backdated, backdated);
+
+      const badgeModule = manifest.modules.find(
+        (mod: any) => mod.declarations[0].tagName === 'my-badge'
+      );
+      badgeModule.declarations[0].members.push({
+        kind: 'field',
+        name: 'pill',
+        type: { text: 'boolean' },
+      });
+      manifest.modules = manifest.modules.filter(
+        (mod: any) => mod.declarations[0].tagName !== 'my-tooltip'
+      );
+      writeFileSync(manifestPath, JSON.stringify(manifest));
+
+      const result = generateAngularWrappers({ manifestPath, wrappersRoot });
+      const statusOf = (path: string) =>
+        result.files.find((file) => file.path === path)?.status;
+
+      expect(statusOf(cardFile)).toBe('unchanged');
+      expect(statusOf(badgeFile)).toBe('updated');
+      expect(statusOf(join(libDir, 'wc-my-tooltip.component.ts'))).toBe('deleted');
+      expect(statusOf(join(wrappersRoot, 'src', 'public-api.ts'))).toBe('updated');
+      expect(statusOf(join(wrappersRoot, 'package.json'))).toBe('unchanged');
+
+      expect(statSync(cardFile).mtime).toEqual(backdated);
+      expect(statSync(badgeFile).mtime).not.toEqual(backdated);
+    });
   });
 
   describe('Built-in Types', () => {
@@ -524,6 +570,1964 @@ describe('generateAngularWrappers', () => {
     });
   });
 
+  describe('Augmented Output', () => {
+    let wrappersRoot: string;
+
+    beforeEach(() => {
+      const manifest = readFileSync(
+        join(__dirname, 'fixtures', 'multiple-components.json'),
+        'utf-8'
+      );
+      writeFileSync(manifestPath, manifest);
+      wrappersRoot = join(testDir, 'angular-wrappers');
+    });
+
+    it('should generate registration, directives and module files', () => {
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        loaderImportPath: 'my-components/loader',
+        augmentAngularOutput: true,
+      });
+
+      const libDir = join(wrappersRoot, 'src', 'lib');
+      const register = readFileSync(join(libDir, 'register-web-components.ts'), 'utf-8');
+      expect(register).toContain("import { defineCustomElements } from 'my-components/loader';");
+      expect(register).toContain('export const registerWebComponents = (): void => {');
+
+      const directives = readFileSync(join(libDir, 'directives.ts'), 'utf-8');
+      expect(directives).toContain("import { LIT_DIRECTIVES } from './lit';");
+      expect(directives).toContain('export const DIRECTIVES = [...LIT_DIRECTIVES] as const;');
+
+      const litIndex = readFileSync(join(libDir, 'lit', 'index.ts'), 'utf-8');
+      expect(litIndex).toContain('WcMyBadgeComponent,');
+      expect(litIndex).toContain('WcMyTooltipComponent,');
+
+      const publicApi = readFileSync(join(wrappersRoot, 'src', 'public-api.ts'), 'utf-8');
+      expect(publicApi).toBe(
+        [
+          "export * from './lib/lit';",
+          "export * from './lib/directives';",
+          "export * from './lib/register-web-components';",
+          "export * from './lib/web-components.module';",
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should import standalone wrappers into the module', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot, augmentAngularOutput: true });
+
+      const module = readFileSync(
+        join(wrappersRoot, 'src', 'lib', 'web-components.module.ts'),
+        'utf-8'
+      );
+      expect(module).toContain('  imports: [...DIRECTIVES],');
+      expect(module).not.toContain('declarations:');
+      expect(module).toContain('  exports: [...DIRECTIVES],');
+      expect(module).toContain('export class WebComponentsModule {');
+      expect(module).toContain('    registerWebComponents();');
+    });
+
+    it('should declare non-standalone wrappers in the module', () => {
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        augmentAngularOutput: true,
+        standalone: false,
+      });
+
+      const module = readFileSync(
+        join(wrappersRoot, 'src', 'lib', 'web-components.module.ts'),
+        'utf-8'
+      );
+      expect(module).toContain('  declarations: [...DIRECTIVES],');
+      expect(module).not.toContain('imports:');
+
+      const badge = readFileSync(
+        join(wrappersRoot, 'src', 'lib', 'lit', 'wc-my-badge.component.ts'),
+        'utf-8'
+      );
+      expect(badge).toContain('standalone: false,');
+    });
+  });
+
+  describe('Attributes', () => {
+    let wrappersRoot: string;
+    let componentFile: string;
+
+    beforeEach(() => {
+      const manifest = readFileSync(join(__dirname, 'fixtures', 'attributes.json'), 'utf-8');
+      writeFileSync(manifestPath, manifest);
+      wrappersRoot = join(testDir, 'angular-wrappers');
+      componentFile = join(wrappersRoot, 'src', 'lib', 'wc-my-stepper.component.ts');
+    });
+
+    it('should link attributes to their members', () => {
+      const result = generateAngularWrappers({ manifestPath, wrappersRoot });
+      const [component] = result.components;
+
+      expect(component.attributes.map((attribute) => attribute.name)).toEqual([
+        'label',
+        'value',
+        'readonly',
+        'size',
+        'no-wrap',
+        'internal-id',
+      ]);
+      const attributeOf = Object.fromEntries(
+        component.members.map((member) => [member.name, member.attribute])
+      );
+      expect(attributeOf).toEqual({
+        label: 'label',
+        value: 'value',
+        readOnly: 'readonly',
+        steps: undefined,
+      });
+    });
+
+    it('should coerce boolean and number inputs with transforms', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot });
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain('booleanAttribute, numberAttribute } from \'@angular/core\';');
+      expect(content).toContain('@Input({ transform: numberAttribute }) value?: number;');
+      expect(content).toContain('@Input({ transform: booleanAttribute }) readOnly?: boolean;');
+      expect(content).toContain('@Input() steps?: number[];');
+    });
+
+    it('should generate attribute-only inputs for attributes without a field', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot });
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain("/** Visual size */\n  @Input() size?: 's' | 'm' | 'l';");
+      expect(content).toContain(
+        "@Input({ alias: 'no-wrap', transform: booleanAttribute }) noWrap?: boolean;"
+      );
+      expect(content).toContain("this.setAttributeValue(element, 'size', this.size);");
+      expect(content).toContain("this.setAttributeValue(element, 'no-wrap', this.noWrap);");
+      // Attributes backed by a non-public field are not exposed
+      expect(content).not.toContain('internal-id');
+    });
+
+    it('should set attributes until the element is upgraded', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot });
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain("this.setPropertyValue(element, 'readOnly', 'readonly', this.readOnly);");
+      expect(content).toContain('(element as any).steps = this.steps;');
+      expect(content).toContain('customElements.get(element.localName) !== undefined');
+      expect(content).toContain('element.removeAttribute(attribute);');
+    });
+
+    it('should generate attribute inputs in signal mode', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot, signals: true });
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain(
+        'readonly readOnly = input<boolean | undefined, unknown>(undefined, { transform: booleanAttribute });'
+      );
+      expect(content).toContain(
+        "readonly noWrap = input<boolean | undefined, unknown>(undefined, { alias: 'no-wrap', transform: booleanAttribute });"
+      );
+      expect(content).toContain(
+        "this.setPropertyValue(this.host.nativeElement, 'label', 'label', this.label());"
+      );
+      expect(content).toContain("this.setAttributeValue(this.host.nativeElement, 'size', this.size());");
+    });
+  });
+
+  describe('Slots', () => {
+    let wrappersRoot: string;
+    let componentFile: string;
+
+    beforeEach(() => {
+      const manifest = readFileSync(join(__dirname, 'fixtures', 'slots.json'), 'utf-8');
+      writeFileSync(manifestPath, manifest);
+      wrappersRoot = join(testDir, 'angular-wrappers');
+      componentFile = join(wrappersRoot, 'src', 'lib', 'wc-my-panel.component.ts');
+    });
+
+    it('should include slots in component metadata', () => {
+      const result = generateAngularWrappers({ manifestPath, wrappersRoot });
+
+      expect(result.components[0].slots).toEqual([
+        { name: '', description: 'Panel body', inheritedFrom: undefined },
+        { name: 'header', description: 'Replaces the heading', inheritedFrom: undefined },
+        {
+          name: 'footer-actions',
+          description: 'Buttons shown in the footer',
+          inheritedFrom: undefined,
+        },
+      ]);
+    });
+
+    it('should document slots on the wrapper without directives by default', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot });
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain(
+        [
+          '/**',
+          ' * @slot - Panel body',
+          ' * @slot header - Replaces the heading',
+          ' * @slot footer-actions - Buttons shown in the footer',
+          ' */',
+          '@Component({',
+        ].join('\n')
+      );
+      expect(content).not.toContain('@Directive');
+    });
+
+    it('should generate slot directives when enabled', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot, slotDirectives: true });
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain('Component, Directive, ElementRef');
+      expect(content).toContain(
+        ' * @slot header - Replaces the heading (directive: `wcMyPanelHeader`)'
+      );
+      expect(content).toContain("  selector: '[wcMyPanelHeader]',\n  standalone: true,\n  host: { slot: 'header' },");
+      expect(content).toContain('export class WcMyPanelHeaderSlotDirective {}');
+      expect(content).toContain("  selector: '[wcMyPanelFooterActions]',");
+      expect(content).toContain("host: { slot: 'footer-actions' },");
+      expect(content).toContain('export class WcMyPanelFooterActionsSlotDirective {}');
+
+      const publicApi = readFileSync(join(wrappersRoot, 'src', 'public-api.ts'), 'utf-8');
+      expect(publicApi).toContain(
+        "export { WcMyPanelComponent, WcMyPanelHeaderSlotDirective, WcMyPanelFooterActionsSlotDirective } from './lib/wc-my-panel.component';"
+      );
+      expect(publicApi).toContain('  WcMyPanelHeaderSlotDirective,\n  WcMyPanelFooterActionsSlotDirective,\n] as const;');
+    });
+
+    it('should add slot directives to the augmented directives list', () => {
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        slotDirectives: true,
+        augmentAngularOutput: true,
+        standalone: false,
+      });
+
+      const litIndex = readFileSync(join(wrappersRoot, 'src', 'lib', 'lit', 'index.ts'), 'utf-8');
+      expect(litIndex).toContain('  WcMyPanelHeaderSlotDirective,');
+
+      const content = readFileSync(
+        join(wrappersRoot, 'src', 'lib', 'lit', 'wc-my-panel.component.ts'),
+        'utf-8'
+      );
+      expect(content).toContain("  selector: '[wcMyPanelHeader]',\n  standalone: false,");
+    });
+  });
+
+  describe('CSS Properties and Parts', () => {
+    let wrappersRoot: string;
+    let componentFile: string;
+
+    beforeEach(() => {
+      const manifest = readFileSync(join(__dirname, 'fixtures', 'css-theming.json'), 'utf-8');
+      writeFileSync(manifestPath, manifest);
+      wrappersRoot = join(testDir, 'angular-wrappers');
+      componentFile = join(wrappersRoot, 'src', 'lib', 'wc-my-chip.component.ts');
+    });
+
+    it('should include CSS properties and parts in component metadata', () => {
+      const result = generateAngularWrappers({ manifestPath, wrappersRoot });
+
+      expect(result.components[0].cssProperties).toEqual([
+        {
+          name: '--chip-background',
+          description: 'Background color of the chip',
+          syntax: '<color>',
+          default: '#eee',
+          inheritedFrom: undefined,
+        },
+        {
+          name: '--chip-radius',
+          description: 'Corner radius',
+          syntax: undefined,
+          default: undefined,
+          inheritedFrom: undefined,
+        },
+      ]);
+      expect(result.components[0].cssParts.map((part) => part.name)).toEqual([
+        'label',
+        'remove-button',
+      ]);
+    });
+
+    it('should document CSS properties and parts in the header comment', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot });
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain(
+        [
+          ' *',
+          ' * @cssprop {<color>} [--chip-background=#eee] - Background color of the chip',
+          ' * @cssprop --chip-radius - Corner radius',
+          ' * @csspart label - The label text',
+          ' * @csspart remove-button',
+          ' */',
+        ].join('\n')
+      );
+    });
+
+    it('should export a typed parts constant from the wrapper and barrel', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot });
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain("export const WC_MY_CHIP_PARTS = ['label', 'remove-button'] as const;");
+      expect(content).toContain('export type WcMyChipPart = (typeof WC_MY_CHIP_PARTS)[number];');
+
+      const publicApi = readFileSync(join(wrappersRoot, 'src', 'public-api.ts'), 'utf-8');
+      expect(publicApi).toContain(
+        "export { WcMyChipComponent, WC_MY_CHIP_PARTS } from './lib/wc-my-chip.component';"
+      );
+      expect(publicApi).toContain("export type { WcMyChipPart } from './lib/wc-my-chip.component';");
+      expect(publicApi).toContain('  WcMyChipComponent,\n] as const;');
+    });
+
+    it('should re-export the parts constant from the augmented lit index', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot, augmentAngularOutput: true });
+
+      const litIndex = readFileSync(join(wrappersRoot, 'src', 'lib', 'lit', 'index.ts'), 'utf-8');
+      expect(litIndex).toContain("export { WcMyChipComponent, WC_MY_CHIP_PARTS } from './wc-my-chip.component';");
+      expect(litIndex).toContain("export type { WcMyChipPart } from './wc-my-chip.component';");
+    });
+
+    it('should not generate a cssVars input by default', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot });
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).not.toContain('cssVars');
+    });
+
+    it('should generate a typed cssVars input when enabled', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot, cssVars: true });
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain(
+        "@Input() cssVars?: Partial<{ '--chip-background': string; '--chip-radius': string }>;"
+      );
+      expect(content).toContain('    this.applyCssVars(element, this.cssVars);');
+      expect(content).toContain('element.style.setProperty(name, value)');
+      expect(content).toContain('element.style.removeProperty(name)');
+    });
+
+    it('should generate a cssVars signal input in signal mode', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot, cssVars: true, signals: true });
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain(
+        "readonly cssVars = input<Partial<{ '--chip-background': string; '--chip-radius': string }>>();"
+      );
+      expect(content).toContain('      this.applyCssVars(this.host.nativeElement, this.cssVars());');
+    });
+  });
+
+  describe('Type References', () => {
+    let wrappersRoot: string;
+    let componentFile: string;
+
+    beforeEach(() => {
+      const manifest = readFileSync(join(__dirname, 'fixtures', 'type-references.json'), 'utf-8');
+      writeFileSync(manifestPath, manifest);
+      wrappersRoot = join(testDir, 'angular-wrappers');
+      componentFile = join(wrappersRoot, 'src', 'lib', 'wc-my-select.component.ts');
+    });
+
+    it('should resolve types from manifest references and declarations', () => {
+      const result = generateAngularWrappers({ manifestPath, wrappersRoot });
+
+      expect(result.components[0].typeReferences).toEqual([
+        {
+          name: 'ButtonVariant',
+          module: 'src/types/variants.ts',
+          package: undefined,
+          importPath: undefined,
+        },
+        {
+          name: 'IconName',
+          module: 'dist/index.js',
+          package: '@acme/icons',
+          importPath: '@acme/icons',
+        },
+        { name: 'Themes', module: 'src/themes.ts', importPath: undefined },
+        { name: 'SelectDetail', unresolved: true },
+      ]);
+    });
+
+    it('should import types from the module or package they are declared in', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot, componentLibraryImport: 'ref-lib' });
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain(
+        "import type { IconName } from '@acme/icons';\nimport type { ButtonVariant, SelectDetail, Themes } from 'ref-lib';\n"
+      );
+    });
+
+    it('should not import string literals, type parameters or globals', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot, componentLibraryImport: 'ref-lib' });
+      const imports = readFileSync(componentFile, 'utf-8')
+        .split('\n')
+        .filter((line) => line.startsWith('import type'))
+        .join('\n');
+
+      expect(imports).not.toContain('Small');
+      expect(imports).not.toMatch(/\bT\b/);
+      expect(imports).not.toContain('ValidityState');
+      expect(imports).not.toContain('Dark');
+    });
+
+    it('should map module paths onto import specifiers', () => {
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        componentLibraryImport: 'ref-lib',
+        typeImportPaths: { 'src/': 'ref-lib/dist/' },
+      });
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain("import type { SelectDetail } from 'ref-lib';");
+      expect(content).toContain("import type { Themes } from 'ref-lib/dist/themes';");
+      expect(content).toContain("import type { ButtonVariant } from 'ref-lib/dist/types/variants';");
+    });
+
+    it('should report unresolved types', () => {
+      const result = generateAngularWrappers({ manifestPath, wrappersRoot });
+
+      expect(result.unresolvedTypes).toEqual([{ tagName: 'my-select', name: 'SelectDetail' }]);
+    });
+  });
+
+  describe('Type Fallback', () => {
+    let wrappersRoot: string;
+    let componentFile: string;
+
+    beforeEach(() => {
+      const manifest = readFileSync(join(__dirname, 'fixtures', 'type-references.json'), 'utf-8');
+      writeFileSync(manifestPath, manifest);
+      wrappersRoot = join(testDir, 'angular-wrappers');
+      componentFile = join(wrappersRoot, 'src', 'lib', 'wc-my-select.component.ts');
+    });
+
+    it('should substitute configured type replacements without importing them', () => {
+      const result = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        componentLibraryImport: 'ref-lib',
+        typeReplacements: { ButtonVariant: "'solid' | 'outline'", Themes: 'string' },
+      });
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain("@Input() variant?: 'solid' | 'outline';");
+      expect(content).toContain('@Input() theme?: string | string;');
+      expect(content).toContain("import type { SelectDetail } from 'ref-lib';");
+      expect(content).not.toContain('TODO');
+      expect(result.components[0].typeFallbacks).toEqual([
+        { name: 'ButtonVariant', replacement: "'solid' | 'outline'", widened: false, usedBy: ['variant'] },
+        { name: 'Themes', replacement: 'string', widened: false, usedBy: ['theme'] },
+      ]);
+    });
+
+    it('should parenthesize nested replacements', () => {
+      writeFileSync(
+        manifestPath,
+        JSON.stringify({
+          schemaVersion: '1.0.0',
+          modules: [
+            {
+              kind: 'javascript-module',
+              path: 'src/my-list.ts',
+              declarations: [
+                {
+                  kind: 'class',
+                  name: 'MyList',
+                  tagName: 'my-list',
+                  members: [{ kind: 'field', name: 'items', type: { text: 'Item[]' } }],
+                },
+              ],
+            },
+          ],
+        })
+      );
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        typeReplacements: { Item: 'string | number' },
+      });
+      const content = readFileSync(join(wrappersRoot, 'src', 'lib', 'wc-my-list.component.ts'), 'utf-8');
+
+      expect(content).toContain('@Input() items?: (string | number)[];');
+    });
+
+    it('should widen unresolved types with a TODO comment', () => {
+      const result = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        componentLibraryImport: 'ref-lib',
+        unresolvedTypeFallback: 'unknown',
+      });
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain("import type { ButtonVariant, Themes } from 'ref-lib';");
+      expect(content).toContain(
+        '// TODO: SelectDetail could not be resolved and is typed as unknown (select)'
+      );
+      expect(content).toContain('new EventEmitter<CustomEvent<unknown>>()');
+      expect(content).not.toContain('SelectDetail }');
+      expect(result.unresolvedTypes).toEqual([
+        { tagName: 'my-select', name: 'SelectDetail', widenedTo: 'unknown' },
+      ]);
+    });
+
+    it('should widen unresolved types to any', () => {
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        signals: true,
+        unresolvedTypeFallback: 'any',
+      });
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain('output<CustomEvent<any>>');
+      expect(content).toContain('typed as any (select)');
+    });
+
+    it('should list every unresolved type in strict mode', () => {
+      writeFileSync(
+        manifestPath,
+        JSON.stringify({
+          schemaVersion: '1.0.0',
+          modules: [
+            {
+              kind: 'javascript-module',
+              path: 'src/my-tree.ts',
+              declarations: [
+                {
+                  kind: 'class',
+                  name: 'MyTree',
+                  tagName: 'my-tree',
+                  members: [
+                    { kind: 'field', name: 'nodes', type: { text: 'TreeNode[]' } },
+                    { kind: 'field', name: 'selected', type: { text: 'TreeNode | null' } },
+                    { kind: 'method', name: 'expand', parameters: [{ name: 'path', type: { text: 'TreePath' } }] },
+                  ],
+                },
+              ],
+            },
+          ],
+        })
+      );
+
+      expect(() =>
+        generateAngularWrappers({ manifestPath, wrappersRoot, strictTypes: true, unresolvedTypeFallback: 'unknown' })
+      ).toThrow(
+        'Unresolved types in wrapper APIs; export them from the component library or add them to typeReplacements:\n' +
+          '  - my-tree: TreeNode (nodes, selected)\n' +
+          '  - my-tree: TreePath (expand())'
+      );
+      expect(existsSync(wrappersRoot)).toBe(false);
+
+      expect(() =>
+        generateAngularWrappers({
+          manifestPath,
+          wrappersRoot,
+          strictTypes: true,
+          typeReplacements: { TreeNode: 'object', TreePath: 'string[]' },
+        })
+      ).not.toThrow();
+    });
+
+    it('should reject unknown fallback modes', () => {
+      expect(() =>
+        generateAngularWrappers({ manifestPath, wrappersRoot, unresolvedTypeFallback: 'never' as any })
+      ).toThrow('Invalid unresolvedTypeFallback "never"; expected "import", "unknown" or "any".');
+    });
+  });
+
+  describe('Naming Strategies', () => {
+    let wrappersRoot: string;
+
+    beforeEach(() => {
+      const manifest = readFileSync(join(__dirname, 'fixtures', 'simple-component.json'), 'utf-8');
+      writeFileSync(manifestPath, manifest);
+      wrappersRoot = join(testDir, 'angular-wrappers');
+    });
+
+    it('should derive the default class name from the selector prefix', () => {
+      const result = generateAngularWrappers({ manifestPath, wrappersRoot, wrapperSelectorPrefix: 'acme-' });
+
+      expect(result.components[0].selector).toBe('acme-my-button');
+      expect(result.components[0].className).toBe('AcmeMyButtonComponent');
+      expect(result.components[0].fileName).toBe('acme-my-button.component.ts');
+    });
+
+    it('should strip the tag prefix before deriving names', () => {
+      const result = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        wrapperSelectorPrefix: 'acme-',
+        naming: { stripTagPrefix: 'my-' },
+      });
+
+      expect(result.components[0].selector).toBe('acme-button');
+      expect(result.components[0].className).toBe('AcmeButtonComponent');
+      const content = readFileSync(join(wrappersRoot, 'src', 'lib', 'acme-button.component.ts'), 'utf-8');
+      expect(content).toContain("selector: 'acme-button',");
+      expect(content).toContain('export class AcmeButtonComponent');
+      expect(content).toContain('<my-button #host>');
+    });
+
+    it('should apply naming templates and functions', () => {
+      const result = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        naming: {
+          stripTagPrefix: 'my-',
+          className: '{Name}Component',
+          fileName: (context) => `ng-${context.name}.component.ts`,
+          outputName: 'on{Event}',
+        },
+      });
+
+      expect(result.components[0].selector).toBe('wc-button');
+      expect(result.components[0].className).toBe('ButtonComponent');
+      expect(result.components[0].fileName).toBe('ng-button.component.ts');
+      expect(result.components[0].events[0].outputName).toBe('onButtonClick');
+
+      const content = readFileSync(join(wrappersRoot, 'src', 'lib', 'ng-button.component.ts'), 'utf-8');
+      expect(content).toContain("@Output('buttonClick') onButtonClick = new EventEmitter");
+    });
+
+    it('should remove stale files generated under a custom fileName template', () => {
+      writeFileSync(
+        manifestPath,
+        readFileSync(join(__dirname, 'fixtures', 'multiple-components.json'), 'utf-8')
+      );
+      const libDir = join(wrappersRoot, 'src', 'lib');
+      generateAngularWrappers({ manifestPath, wrappersRoot, naming: { fileName: '{name}.ts' } });
+      expect(existsSync(join(libDir, 'my-tooltip.ts'))).toBe(true);
+
+      // Removing a component deletes its file
+      const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+      manifest.modules = manifest.modules.filter(
+        (mod: any) => mod.declarations[0].tagName !== 'my-tooltip'
+      );
+      writeFileSync(manifestPath, JSON.stringify(manifest));
+      generateAngularWrappers({ manifestPath, wrappersRoot, naming: { fileName: '{name}.ts' } });
+      expect(existsSync(join(libDir, 'my-tooltip.ts'))).toBe(false);
+
+      // Changing the template deletes the files named by the old one
+      const result = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        naming: { fileName: 'ng-{name}.wrapper.ts' },
+      });
+      expect(result.files.filter((file) => file.status === 'deleted').map((file) => file.path)).toEqual([
+        join(libDir, 'my-badge.ts'),
+        join(libDir, 'my-card.ts'),
+      ]);
+      expect(existsSync(join(libDir, 'ng-my-card.wrapper.ts'))).toBe(true);
+      expect(JSON.parse(readFileSync(join(libDir, '.generated-files.json'), 'utf-8'))).toEqual({
+        files: ['ng-my-badge.wrapper.ts', 'ng-my-card.wrapper.ts'],
+      });
+    });
+
+    it('should reject unknown template placeholders', () => {
+      expect(() =>
+        generateAngularWrappers({ manifestPath, wrappersRoot, naming: { className: '{Tag}Component' } })
+      ).toThrow('Unknown placeholder {Tag} in naming template "{Tag}Component"');
+    });
+
+    it('should report naming collisions', () => {
+      writeFileSync(
+        manifestPath,
+        readFileSync(join(__dirname, 'fixtures', 'multiple-components.json'), 'utf-8')
+      );
+
+      expect(() =>
+        generateAngularWrappers({
+          manifestPath,
+          wrappersRoot,
+          naming: { className: 'WidgetComponent', outputName: 'changed' },
+        })
+      ).toThrow(
+        'Naming collisions in generated wrappers:\n' +
+          '  - className "WidgetComponent" is used by my-badge, my-card, my-tooltip\n' +
+          '  - member "changed" of my-tooltip is used by event "show", event "hide"'
+      );
+      expect(existsSync(wrappersRoot)).toBe(false);
+    });
+  });
+
+  describe('Naming Collisions', () => {
+    let wrappersRoot: string;
+
+    beforeEach(() => {
+      writeFileSync(
+        manifestPath,
+        readFileSync(join(__dirname, 'fixtures', 'naming-collisions.json'), 'utf-8')
+      );
+      wrappersRoot = join(testDir, 'angular-wrappers');
+    });
+
+    it('should report collisions between events, inputs, class names and wrapper members', () => {
+      expect(() => generateAngularWrappers({ manifestPath, wrappersRoot })).toThrow(
+        'Naming collisions in generated wrappers:\n' +
+          '  - className "WcMyFieldComponent" is used by my--field, my-field\n' +
+          '  - member "host" of my-field is used by the wrapper, attribute "host"\n' +
+          '  - member "element" of my-field is used by the wrapper, property "element"\n' +
+          '  - member "syncInputs" of my-field is used by the wrapper, method "syncInputs()"\n' +
+          '  - member "open" of my-field is used by property "open", event "open"\n' +
+          '  - member "valueChange" of my-field is used by event "value-change", event "valueChange"'
+      );
+    });
+
+    it('should rename later names with a collision template', () => {
+      const result = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        naming: { onCollision: '{name}{index}' },
+      });
+
+      expect(result.components.map((component) => component.className)).toEqual([
+        'WcMyFieldComponent',
+        'WcMyFieldComponent2',
+      ]);
+      const field = result.components[1];
+      expect(field.members.map((member) => member.inputName)).toEqual(['element2', undefined]);
+      expect(field.events.map((event) => event.outputName)).toEqual(['valueChange', 'valueChange2', 'open2']);
+      expect(field.methods[0].wrapperName).toBe('syncInputs2');
+
+      const content = readFileSync(join(wrappersRoot, 'src', 'lib', 'wc-my-field.component.ts'), 'utf-8');
+      expect(content).toContain('export class WcMyFieldComponent2 ');
+      expect(content).toContain("@Input({ alias: 'element' }) element2?: string;");
+      expect(content).toContain("@Input({ alias: 'host' }) host2?: string;");
+      expect(content).toContain("@Output('valueChange') valueChange2 = new EventEmitter");
+      expect(content).toContain("@Output('open') open2 = new EventEmitter<Event>();");
+      expect(content).toContain("this.setPropertyValue(element, 'element', 'element', this.element2);");
+      expect(content).toContain("this.setAttributeValue(element, 'host', this.host2);");
+      expect(content).toContain('syncInputs2(): void {\n    (this.host.nativeElement as any).syncInputs();');
+    });
+
+    it('should list renamed inputs by their aliases in non-standalone metadata', () => {
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        standalone: false,
+        naming: { onCollision: '{name}{index}' },
+      });
+
+      const content = readFileSync(join(wrappersRoot, 'src', 'lib', 'wc-my-field.component.ts'), 'utf-8');
+      expect(content).toContain("inputs: ['element2: element', 'open', 'host2: host'],");
+      expect(content).toContain("@Input({ alias: 'host' }) host2?: string;");
+    });
+
+    it('should rename signal inputs and outputs', () => {
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        signals: true,
+        naming: { onCollision: '{name}{index}' },
+      });
+
+      const content = readFileSync(join(wrappersRoot, 'src', 'lib', 'wc-my-field.component.ts'), 'utf-8');
+      expect(content).toContain("readonly element2 = input<string | undefined>(undefined, { alias: 'element' });");
+      expect(content).toContain("readonly open2 = output<Event>({ alias: 'open' });");
+      expect(content).toContain("this.setPropertyValue(this.host.nativeElement, 'element', 'element', this.element2());");
+    });
+
+    it('should rename with a collision function', () => {
+      const result = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        naming: {
+          onCollision: ({ kind, name, index }) =>
+            kind === 'className' ? name.replace(/Component$/, `${index}Component`) : `${name}_${index}`,
+        },
+      });
+
+      expect(result.components[1].className).toBe('WcMyField2Component');
+      expect(result.components[1].events[1].outputName).toBe('valueChange_2');
+    });
+
+    it('should reject collision rules that repeat a taken name', () => {
+      expect(() =>
+        generateAngularWrappers({ manifestPath, wrappersRoot, naming: { onCollision: '{name}' } })
+      ).toThrow(
+        'Naming collision rule keeps returning "WcMyFieldComponent" for className "WcMyFieldComponent" of my-field'
+      );
+    });
+  });
+
+  describe('Plugins', () => {
+    let wrappersRoot: string;
+
+    beforeEach(() => {
+      writeFileSync(
+        manifestPath,
+        readFileSync(join(__dirname, 'fixtures', 'multiple-components.json'), 'utf-8')
+      );
+      wrappersRoot = join(testDir, 'angular-wrappers');
+    });
+
+    it('should run every hook of a plugin', () => {
+      const calls: string[] = [];
+      const plugin: GeneratorPlugin = {
+        name: 'acme',
+        transformManifest: (manifest) => {
+          calls.push('transformManifest');
+          manifest.modules = manifest.modules.filter(
+            (mod: any) => mod.declarations[0].tagName !== 'my-tooltip'
+          );
+        },
+        transformComponentMeta: (component) => {
+          calls.push(`transformComponentMeta ${component.tagName}`);
+          return component.tagName === 'my-card'
+            ? false
+            : { ...component, description: 'Acme badge' };
+        },
+        transformComponentSource: (source, component) =>
+          source.replace('@Component({', `@Component({\n  host: { 'data-tag': '${component.tagName}' },`),
+        emitAdditionalFiles: (components, context) => [
+          {
+            path: 'src/lib/tags.ts',
+            content: `export const TAGS = ${JSON.stringify(components.map((component) => component.tagName))};\n`,
+          },
+          { path: join(context.wrappersRoot, 'NOTES.md'), content: '# Notes\n', overwrite: false },
+        ],
+        afterGenerate: (result, context) => {
+          calls.push(`afterGenerate ${result.files.length} ${context.options.manifestPath === manifestPath}`);
+        },
+      };
+
+      const result = generateAngularWrappers({ manifestPath, wrappersRoot, plugins: [plugin] });
+
+      expect(result.components.map((component) => component.tagName)).toEqual(['my-badge']);
+      expect(calls).toEqual([
+        'transformManifest',
+        'transformComponentMeta my-badge',
+        'transformComponentMeta my-card',
+        `afterGenerate ${result.files.length} true`,
+      ]);
+      const content = readFileSync(join(wrappersRoot, 'src', 'lib', 'wc-my-badge.component.ts'), 'utf-8');
+      expect(content).toContain('Acme badge');
+      expect(content).toContain("@Component({\n  host: { 'data-tag': 'my-badge' },");
+      expect(existsSync(join(wrappersRoot, 'src', 'lib', 'wc-my-card.component.ts'))).toBe(false);
+      expect(readFileSync(join(wrappersRoot, 'src', 'lib', 'tags.ts'), 'utf-8')).toBe('export const TAGS = ["my-badge"];\n');
+      expect(readFileSync(join(wrappersRoot, 'NOTES.md'), 'utf-8')).toBe('# Notes\n');
+    });
+
+    it('should chain hooks in plugin order', () => {
+      const tagPlugin = (name: string): GeneratorPlugin => ({
+        name,
+        transformComponentSource: (source) => `${source}// ${name}\n`,
+      });
+
+      generateAngularWrappers({ manifestPath, wrappersRoot, plugins: [tagPlugin('first'), tagPlugin('second')] });
+
+      const content = readFileSync(join(wrappersRoot, 'src', 'lib', 'wc-my-card.component.ts'), 'utf-8');
+      expect(content.endsWith('// first\n// second\n')).toBe(true);
+    });
+
+    it('should keep plugin files in the component directory', () => {
+      const plugins: GeneratorPlugin[] = [
+        {
+          name: 'extra-component',
+          emitAdditionalFiles: () => [{ path: 'src/lib/wc-extra.component.ts', content: 'export {};\n' }],
+        },
+      ];
+      generateAngularWrappers({ manifestPath, wrappersRoot, plugins });
+      const result = generateAngularWrappers({ manifestPath, wrappersRoot, plugins, dryRun: true });
+
+      expect(result.plan.delete).toEqual([]);
+      expect(existsSync(join(wrappersRoot, 'src', 'lib', 'wc-extra.component.ts'))).toBe(true);
+    });
+
+    it('should name the failing plugin and hook', () => {
+      const plugins: GeneratorPlugin[] = [
+        { name: 'passing' },
+        {
+          name: 'failing',
+          transformComponentMeta: (component) => {
+            if (component.tagName === 'my-badge') {
+              throw new Error('Badges are not supported.');
+            }
+          },
+        },
+      ];
+
+      expect(() => generateAngularWrappers({ manifestPath, wrappersRoot, plugins })).toThrow(
+        'Plugin "failing" failed in transformComponentMeta for my-badge: Badges are not supported.'
+      );
+      expect(existsSync(wrappersRoot)).toBe(false);
+    });
+
+    it('should reject invalid hook results and unnamed plugins', () => {
+      const plugins = [
+        { name: 'empty-source', transformComponentSource: () => undefined },
+      ] as unknown as GeneratorPlugin[];
+
+      expect(() => generateAngularWrappers({ manifestPath, wrappersRoot, plugins })).toThrow(
+        'Plugin "empty-source" failed in transformComponentSource for my-badge: expected a string, got undefined.'
+      );
+      expect(() =>
+        generateAngularWrappers({ manifestPath, wrappersRoot, plugins: [{} as GeneratorPlugin] })
+      ).toThrow('Plugin at index 0 needs a name.');
+    });
+  });
+
+  describe('Templates', () => {
+    let wrappersRoot: string;
+
+    beforeEach(() => {
+      writeFileSync(
+        manifestPath,
+        readFileSync(join(__dirname, 'fixtures', 'multiple-components.json'), 'utf-8')
+      );
+      wrappersRoot = join(testDir, 'angular-wrappers');
+    });
+
+    it('should render component files from the template context', () => {
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        templates: {
+          componentFile: (context) => `import { ${context.angularImports.join(', ')} } from '@angular/core';
+
+@Component({
+${context.decoratorMetadata}
+  host: { class: 'acme' },
+})
+export class ${context.className} {
+${[...context.inputs, ...context.outputs].join('\n')}
+}
+`,
+        },
+      });
+
+      const content = readFileSync(join(wrappersRoot, 'src', 'lib', 'wc-my-badge.component.ts'), 'utf-8');
+      expect(content).toContain("selector: 'wc-my-badge',\n");
+      expect(content).toContain("  host: { class: 'acme' },\n})\nexport class WcMyBadgeComponent {\n");
+      expect(content).toContain('@Input({ transform: numberAttribute }) count?: number;');
+      expect(content).toContain("@Output('badge-click') badgeClick = new EventEmitter");
+      expect(content).not.toContain('ngAfterViewInit');
+    });
+
+    it('should render the default file from a modified context', () => {
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        templates: {
+          componentFile: (context) => {
+            if (context.constructorCode) {
+              context.constructorCode = '';
+              context.fields = [...context.fields, '  private readonly ngZone = inject(NgZone);'];
+              context.angularImports = [...context.angularImports, 'inject'].sort();
+            }
+            return context.renderDefault();
+          },
+        },
+      });
+
+      const badge = readFileSync(join(wrappersRoot, 'src', 'lib', 'wc-my-badge.component.ts'), 'utf-8');
+      expect(badge).toContain('inject, numberAttribute } from');
+      expect(badge).toContain(
+        '  private teardownFns: Array<() => void> = [];\n  private readonly ngZone = inject(NgZone);\n\n  ngAfterViewInit(): void {'
+      );
+      expect(badge).not.toContain('constructor(');
+
+      const card = readFileSync(join(wrappersRoot, 'src', 'lib', 'wc-my-card.component.ts'), 'utf-8');
+      expect(card).not.toContain('inject');
+    });
+
+    it('should render the public API and registration files from templates', () => {
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        templates: {
+          publicApi: (context) =>
+            `${context.modules.map((module) => `export * from '${module.path}';`).join('\n')}\n`,
+          registration: (context) =>
+            `import '${context.loaderImportPath}';\n\nexport const ${context.functionName} = (): void => {};\n`,
+        },
+      });
+
+      expect(readFileSync(join(wrappersRoot, 'src', 'public-api.ts'), 'utf-8')).toBe(
+        "export * from './lib/wc-my-badge.component';\n" +
+          "export * from './lib/wc-my-card.component';\n" +
+          "export * from './lib/wc-my-tooltip.component';\n"
+      );
+      expect(readFileSync(join(wrappersRoot, 'src', 'register-stencil-components.ts'), 'utf-8')).toBe(
+        "import 'web-components/loader';\n\nexport const registerStencilComponents = (): void => {};\n"
+      );
+    });
+
+    it('should apply the public API template to the lit barrel of augmented output', () => {
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        augmentAngularOutput: true,
+        templates: {
+          publicApi: (context) => `${context.renderDefault()}// ${context.modules.length} wrappers\n`,
+        },
+      });
+
+      const content = readFileSync(join(wrappersRoot, 'src', 'lib', 'lit', 'index.ts'), 'utf-8');
+      expect(content).toContain("export { WcMyBadgeComponent } from './wc-my-badge.component';");
+      expect(content.endsWith('] as const;\n// 3 wrappers\n')).toBe(true);
+    });
+  });
+
+  describe('Lazy Registration', () => {
+    let wrappersRoot: string;
+
+    beforeEach(() => {
+      writeFileSync(
+        manifestPath,
+        readFileSync(join(__dirname, 'fixtures', 'multiple-components.json'), 'utf-8')
+      );
+      wrappersRoot = join(testDir, 'angular-wrappers');
+    });
+
+    it('should define each element from its wrapper on first instantiation', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot, registration: 'lazy' });
+
+      const badge = readFileSync(join(wrappersRoot, 'src', 'lib', 'wc-my-badge.component.ts'), 'utf-8');
+      expect(badge).toContain("import { MyBadge } from 'web-components';\n");
+      expect(badge).toContain(
+        "  constructor(private readonly ngZone: NgZone) {\n" +
+          "    if (typeof customElements !== 'undefined' && !customElements.get('my-badge')) {\n" +
+          "      customElements.define('my-badge', MyBadge);\n" +
+          '    }\n' +
+          '  }\n'
+      );
+
+      const registration = readFileSync(join(wrappersRoot, 'src', 'register-stencil-components.ts'), 'utf-8');
+      expect(registration).toContain('export const registerStencilComponents = (): void => {};');
+      expect(registration).not.toContain('defineCustomElements');
+    });
+
+    it('should import element classes through elementImportPaths', () => {
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        signals: true,
+        registration: 'lazy',
+        elementImportPaths: { 'src/components/': 'web-components/dist/components/' },
+      });
+
+      const card = readFileSync(join(wrappersRoot, 'src', 'lib', 'wc-my-card.component.ts'), 'utf-8');
+      expect(card).toContain("import { MyCard } from 'web-components/dist/components/card';\n");
+      expect(card).toContain(
+        "  constructor() {\n    if (typeof customElements !== 'undefined' && !customElements.get('my-card')) {\n"
+      );
+      expect(card).toContain("customElements.define('my-card', MyCard);\n    }\n    effect(() => {");
+    });
+
+    it('should not import the element class again as a type', () => {
+      const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+      const card = manifest.modules.find((mod: any) => mod.declarations[0].tagName === 'my-card');
+      card.declarations[0].members.push({
+        kind: 'field',
+        name: 'parentCard',
+        type: { text: 'MyCard | undefined' },
+      });
+      writeFileSync(manifestPath, JSON.stringify(manifest));
+
+      generateAngularWrappers({ manifestPath, wrappersRoot, registration: 'lazy' });
+
+      const content = readFileSync(join(wrappersRoot, 'src', 'lib', 'wc-my-card.component.ts'), 'utf-8');
+      expect(content).toContain("import { MyCard } from 'web-components';\n");
+      expect(content).not.toContain('import type { MyCard }');
+      expect(content).toContain('@Input() parentCard?: MyCard | undefined;');
+    });
+
+    it('should keep the global loader by default', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot });
+
+      const card = readFileSync(join(wrappersRoot, 'src', 'lib', 'wc-my-card.component.ts'), 'utf-8');
+      expect(card).not.toContain('customElements');
+      expect(readFileSync(join(wrappersRoot, 'src', 'register-stencil-components.ts'), 'utf-8')).toContain(
+        'defineCustomElements(window);'
+      );
+    });
+
+    it('should reject unknown registration strategies', () => {
+      expect(() =>
+        generateAngularWrappers({ manifestPath, wrappersRoot, registration: 'eager' as any })
+      ).toThrow(
+        'Invalid registration "eager"; expected "loader", "lazy", "import" or "scoped".'
+      );
+    });
+  });
+
+  describe('Import and Scoped Registration', () => {
+    let wrappersRoot: string;
+
+    beforeEach(() => {
+      writeFileSync(
+        manifestPath,
+        readFileSync(join(__dirname, 'fixtures', 'lit-components.json'), 'utf-8')
+      );
+      wrappersRoot = join(testDir, 'angular-wrappers');
+    });
+
+    it('should import the modules defining the elements', () => {
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        registration: 'import',
+        elementImportPaths: { 'src/': 'my-lit/dist/' },
+      });
+
+      const registration = readFileSync(join(wrappersRoot, 'src', 'register-stencil-components.ts'), 'utf-8');
+      expect(registration).toContain(
+        "import 'my-lit/dist/components/alert';\nimport 'my-lit/dist/define/toast';\n\n"
+      );
+      expect(registration).toContain('export const registerStencilComponents = (): void => {};');
+      expect(registration).not.toContain('defineCustomElements');
+
+      const toast = readFileSync(join(wrappersRoot, 'src', 'lib', 'wc-my-toast.component.ts'), 'utf-8');
+      expect(toast).not.toContain('customElements');
+    });
+
+    it('should import unmapped modules from their path in the library', () => {
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        augmentAngularOutput: true,
+        registration: 'import',
+      });
+
+      expect(readFileSync(join(wrappersRoot, 'src', 'lib', 'register-web-components.ts'), 'utf-8')).toContain(
+        "import 'web-components/src/components/alert';\nimport 'web-components/src/define/toast';\n\n/**"
+      );
+    });
+
+    it('should define the element classes in a given registry', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot, registration: 'scoped' });
+
+      const registration = readFileSync(join(wrappersRoot, 'src', 'register-stencil-components.ts'), 'utf-8');
+      expect(registration).toContain(
+        "import { MyAlert } from 'web-components/src/components/alert';\n" +
+          "import { MyToast } from 'web-components/src/components/toast';\n"
+      );
+      expect(registration).toContain("  ['my-alert', MyAlert],\n  ['my-toast', MyToast],\n];");
+      expect(registration).toContain(
+        'export const registerStencilComponents = (\n  registry: CustomElementRegistry | undefined = globalThis.customElements\n): void => {'
+      );
+      expect(registration).toContain('    if (!registry.get(tagName)) {\n      registry.define(tagName, element);');
+    });
+
+    it('should alias element classes of the same name from different modules', () => {
+      writeFileSync(manifestPath, readFileSync(manifestPath, 'utf-8').replace(/MyToast/g, 'MyAlert'));
+
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        registration: 'scoped',
+        elementImportPaths: { 'src/': 'my-lit/dist/' },
+      });
+
+      const registration = readFileSync(join(wrappersRoot, 'src', 'register-stencil-components.ts'), 'utf-8');
+      expect(registration).toContain(
+        "import { MyAlert } from 'my-lit/dist/components/alert';\n" +
+          "import { MyAlert as MyAlert2 } from 'my-lit/dist/components/toast';\n"
+      );
+      expect(registration).toContain("  ['my-alert', MyAlert],\n  ['my-toast', MyAlert2],\n];");
+    });
+  });
+
+  describe('Element Definitions', () => {
+    let wrappersRoot: string;
+
+    beforeEach(() => {
+      writeFileSync(
+        manifestPath,
+        readFileSync(join(__dirname, 'fixtures', 'element-definitions.json'), 'utf-8')
+      );
+      wrappersRoot = join(testDir, 'angular-wrappers');
+    });
+
+    it('should include declarations defined through a definition export', () => {
+      const result = generateAngularWrappers({ manifestPath, wrappersRoot });
+
+      expect(result.components.map((component) => component.tagName)).toEqual(['my-chip', 'my-tag']);
+      expect(result.components[0]).toMatchObject({
+        tagName: 'my-chip',
+        className: 'WcMyChipComponent',
+        sourceModule: 'src/components/chip.ts',
+        elementClassName: 'MyChip',
+        elementModule: 'src/index.ts',
+        definitionModule: 'src/index.ts',
+      });
+      expect(result.components[0].members.map((member) => member.name)).toEqual(['label']);
+    });
+
+    it('should import element classes under their exported names', () => {
+      const result = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        registration: 'scoped',
+        elementImportPaths: { 'src/': 'my-lib/' },
+      });
+
+      expect(result.components[1]).toMatchObject({
+        tagName: 'my-tag',
+        elementClassName: 'MyTag',
+        elementModule: 'src/components/tag.ts',
+        definitionModule: 'src/components/tag.ts',
+      });
+      const registration = readFileSync(join(wrappersRoot, 'src', 'register-stencil-components.ts'), 'utf-8');
+      expect(registration).toContain(
+        "import { MyTag } from 'my-lib/components/tag';\nimport { MyChip } from 'my-lib/index';\n"
+      );
+      expect(registration).toContain("  ['my-chip', MyChip],\n  ['my-tag', MyTag],\n");
+    });
+
+    it('should define lazily registered elements with their exported class', () => {
+      generateAngularWrappers({ manifestPath, wrappersRoot, registration: 'lazy' });
+
+      const chip = readFileSync(join(wrappersRoot, 'src', 'lib', 'wc-my-chip.component.ts'), 'utf-8');
+      expect(chip).toContain("import { MyChip } from 'web-components';\n");
+      expect(chip).toContain("customElements.define('my-chip', MyChip);");
+    });
+  });
+
+  describe('Multiple Manifests', () => {
+    let wrappersRoot: string;
+
+    const installPackage = (name: string, packageJson: Record<string, unknown>, fixture?: string) => {
+      const packageDir = join(testDir, 'node_modules', name);
+      mkdirSync(packageDir, { recursive: true });
+      writeFileSync(join(packageDir, 'package.json'), JSON.stringify({ name, ...packageJson }));
+      if (fixture) {
+        writeFileSync(
+          join(packageDir, 'custom-elements.json'),
+          readFileSync(join(__dirname, 'fixtures', fixture), 'utf-8')
+        );
+      }
+    };
+
+    beforeEach(() => {
+      wrappersRoot = join(testDir, 'angular-wrappers');
+    });
+
+    it('should generate wrappers of several packages into one wrapper package', () => {
+      const result = generateAngularWrappers({
+        wrappersRoot,
+        componentLibraryVersion: '^1.0.0',
+        manifests: [
+          {
+            manifestPath: join(__dirname, 'fixtures', 'acme-core.json'),
+            componentLibraryImport: '@acme/core',
+            wrapperSelectorPrefix: 'ac-',
+          },
+          {
+            manifestPath: join(__dirname, 'fixtures', 'acme-forms.json'),
+            componentLibraryImport: '@acme/forms',
+            componentLibraryVersion: '^2.0.0',
+            wrapperSelectorPrefix: 'af-',
+          },
+        ],
+      });
+
+      expect(result.components.map((component) => [component.selector, component.componentLibraryImport])).toEqual([
+        ['ac-core-button', '@acme/core'],
+        ['af-form-field', '@acme/forms'],
+      ]);
+      expect(readFileSync(join(wrappersRoot, 'src', 'lib', 'ac-core-button.component.ts'), 'utf-8')).toContain(
+        "import type { ButtonSize } from '@acme/core';"
+      );
+      expect(readFileSync(join(wrappersRoot, 'src', 'lib', 'af-form-field.component.ts'), 'utf-8')).toContain(
+        "import type { ButtonSize } from '@acme/core';"
+      );
+
+      const registration = readFileSync(join(wrappersRoot, 'src', 'register-stencil-components.ts'), 'utf-8');
+      expect(registration).toContain(
+        "import { defineCustomElements } from '@acme/core/loader';\n" +
+          "import { defineCustomElements as defineCustomElements2 } from '@acme/forms/loader';\n"
+      );
+      expect(registration).toContain('  defineCustomElements(window);\n  defineCustomElements2(window);\n');
+
+      const packageJson = JSON.parse(readFileSync(join(wrappersRoot, 'package.json'), 'utf-8'));
+      expect(packageJson.peerDependencies).toMatchObject({ '@acme/core': '^1.0.0', '@acme/forms': '^2.0.0' });
+    });
+
+    it('should discover manifests through the customElements field of installed packages', () => {
+      installPackage('@acme/core', { version: '1.2.0', customElements: 'custom-elements.json' }, 'acme-core.json');
+      installPackage('@acme/forms', { version: '3.0.1', customElements: 'custom-elements.json' }, 'acme-forms.json');
+      installPackage('@acme/utils', { version: '1.0.0' });
+
+      const result = generateAngularWrappers({ cwd: testDir, manifestPackages: ['@acme/*'] });
+
+      expect(result.wrappersRoot).toBe(wrappersRoot);
+      expect(result.components.map((component) => component.selector)).toEqual(['wc-core-button', 'wc-form-field']);
+      expect(result.manifestPath).toBe(join(testDir, 'node_modules', '@acme', 'core', 'custom-elements.json'));
+      const packageJson = JSON.parse(readFileSync(join(wrappersRoot, 'package.json'), 'utf-8'));
+      expect(packageJson.peerDependencies).toMatchObject({ '@acme/core': '^1.2.0', '@acme/forms': '^3.0.1' });
+      expect(packageJson.peerDependencies).not.toHaveProperty('@acme/utils');
+      expect(readFileSync(join(wrappersRoot, 'src', 'register-stencil-components.ts'), 'utf-8')).toContain(
+        "from '@acme/forms/loader';"
+      );
+    });
+
+    it('should keep the order the manifests are listed in', () => {
+      const result = generateAngularWrappers({
+        wrappersRoot,
+        manifests: [
+          {
+            manifestPath: join(__dirname, 'fixtures', 'acme-forms.json'),
+            componentLibraryImport: '@acme/forms',
+          },
+          {
+            manifestPath: join(__dirname, 'fixtures', 'acme-core.json'),
+            componentLibraryImport: '@acme/core',
+          },
+        ],
+      });
+
+      expect(result.components.map((component) => component.tagName)).toEqual(['form-field', 'core-button']);
+      const publicApi = readFileSync(join(wrappersRoot, 'src', 'public-api.ts'), 'utf-8');
+      expect(publicApi.indexOf('wc-form-field')).toBeLessThan(publicApi.indexOf('wc-core-button'));
+    });
+
+    it('should report package patterns without a manifest', () => {
+      installPackage('@acme/utils', { version: '1.0.0' });
+
+      expect(() =>
+        generateAngularWrappers({ wrappersRoot, cwd: testDir, manifestPackages: ['@acme/*', 'other-*'] })
+      ).toThrow('No package with a customElements field in node_modules matches:\n  - @acme/*\n  - other-*');
+    });
+  });
+
+  describe('Package Manifests', () => {
+    const installPackage = (packageJson: Record<string, unknown>) => {
+      const packageDir = join(testDir, 'node_modules', '@ext', 'buttons');
+      mkdirSync(join(packageDir, 'dist'), { recursive: true });
+      writeFileSync(join(packageDir, 'package.json'), JSON.stringify({ name: '@ext/buttons', ...packageJson }));
+      writeFileSync(
+        join(packageDir, 'dist', 'custom-elements.json'),
+        readFileSync(join(__dirname, 'fixtures', 'simple-component.json'), 'utf-8')
+      );
+      return packageDir;
+    };
+
+    it('should generate wrappers for an installed package', () => {
+      const packageDir = installPackage({ version: '4.1.0', customElements: 'dist/custom-elements.json' });
+
+      const result = generateAngularWrappersFromPackage({ packageName: '@ext/buttons', cwd: testDir });
+
+      expect(result.manifestPath).toBe(join(packageDir, 'dist', 'custom-elements.json'));
+      expect(result.wrappersRoot).toBe(join(testDir, 'angular-wrappers'));
+      expect(result.components.map((component) => component.tagName)).toEqual(['my-button']);
+      const packageJson = JSON.parse(readFileSync(join(testDir, 'angular-wrappers', 'package.json'), 'utf-8'));
+      expect(packageJson.peerDependencies['@ext/buttons']).toBe('^4.1.0');
+      expect(
+        readFileSync(join(testDir, 'angular-wrappers', 'src', 'register-stencil-components.ts'), 'utf-8')
+      ).toContain("import { defineCustomElements } from '@ext/buttons/loader';");
+    });
+
+    it('should keep explicitly passed library options', () => {
+      installPackage({ version: '4.1.0', customElements: 'dist/custom-elements.json' });
+      const wrappersRoot = join(testDir, 'wrappers');
+
+      const result = generateAngularWrappersFromPackage({
+        packageName: '@ext/buttons',
+        cwd: testDir,
+        wrappersRoot,
+        componentLibraryVersion: '~4.1.0',
+        registration: 'import',
+      });
+
+      expect(result.wrappersRoot).toBe(wrappersRoot);
+      expect(JSON.parse(readFileSync(join(wrappersRoot, 'package.json'), 'utf-8')).peerDependencies['@ext/buttons']).toBe(
+        '~4.1.0'
+      );
+      expect(readFileSync(join(wrappersRoot, 'src', 'register-stencil-components.ts'), 'utf-8')).toContain(
+        "import '@ext/buttons/src/components/my-button';"
+      );
+    });
+
+    it('should report packages that are missing or have no manifest', () => {
+      expect(() => generateAngularWrappersFromPackage({ packageName: '@ext/buttons', cwd: testDir })).toThrow(
+        'Package "@ext/buttons" is not installed in node_modules'
+      );
+
+      installPackage({ version: '4.1.0' });
+      expect(() => generateAngularWrappersFromPackage({ packageName: '@ext/buttons', cwd: testDir })).toThrow(
+        'Package "@ext/buttons" has no customElements field'
+      );
+    });
+  });
+
+  describe('Form Controls', () => {
+    beforeEach(() => {
+      const manifest = readFileSync(
+        join(__dirname, 'fixtures', 'form-controls.json'),
+        'utf-8'
+      );
+      writeFileSync(manifestPath, manifest);
+    });
+
+    it('should not generate value accessors by default', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      const result = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+      });
+
+      expect(result.components.every(c => c.formControl === undefined)).toBe(true);
+
+      const content = readFileSync(
+        join(wrappersRoot, 'src', 'lib', 'wc-my-input.component.ts'),
+        'utf-8'
+      );
+      expect(content).not.toContain('NG_VALUE_ACCESSOR');
+    });
+
+    it('should detect form controls from value members and events', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      const result = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        formControls: true,
+      });
+
+      const input = result.components.find(c => c.tagName === 'my-input');
+      expect(input?.formControl).toEqual({
+        valueProperty: 'value',
+        valueType: 'string',
+        changeEvent: 'input',
+        touchEvent: 'blur',
+        disabledProperty: 'disabled',
+      });
+
+      const checkbox = result.components.find(c => c.tagName === 'my-checkbox');
+      expect(checkbox?.formControl?.valueProperty).toBe('checked');
+      expect(checkbox?.formControl?.changeEvent).toBe('change');
+
+      const slider = result.components.find(c => c.tagName === 'my-slider');
+      expect(slider?.formControl).toBeUndefined();
+    });
+
+    it('should generate a ControlValueAccessor provider and methods', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        formControls: true,
+      });
+
+      const content = readFileSync(
+        join(wrappersRoot, 'src', 'lib', 'wc-my-input.component.ts'),
+        'utf-8'
+      );
+      expect(content).toContain("import { ControlValueAccessor, NG_VALUE_ACCESSOR } from '@angular/forms';");
+      expect(content).toContain('provide: NG_VALUE_ACCESSOR');
+      expect(content).toContain('useExisting: forwardRef(() => WcMyInputComponent)');
+      expect(content).toContain('implements AfterViewInit, OnChanges, OnDestroy, ControlValueAccessor');
+      expect(content).toContain('writeValue(value: string): void {');
+      expect(content).toContain('this.value = value;');
+      expect(content).toContain('registerOnChange(fn: (value: string) => void): void {');
+      expect(content).toContain('registerOnTouched(fn: () => void): void {');
+      expect(content).toContain('setDisabledState(isDisabled: boolean): void {');
+      expect(content).toContain("this.addEventListener('input', () => {");
+      expect(content).toContain("this.addEventListener('blur', () => this.onTouched());");
+
+      const pkg = JSON.parse(readFileSync(join(wrappersRoot, 'package.json'), 'utf-8'));
+      expect(pkg.peerDependencies['@angular/forms']).toBe('^20.0.0');
+    });
+
+    it('should set up listeners for form controls without outputs', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        formControls: true,
+      });
+
+      const content = readFileSync(
+        join(wrappersRoot, 'src', 'lib', 'wc-my-checkbox.component.ts'),
+        'utf-8'
+      );
+      expect(content).toContain('constructor(private readonly ngZone: NgZone) {}');
+      expect(content).toContain("this.addEventListener('change', () => {");
+      expect(content).toContain('(this.host.nativeElement as any).checked = value;');
+      expect(content).not.toContain('EventEmitter');
+    });
+
+    it('should honor explicit per-tag mappings', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      const result = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        formControls: {
+          mappings: {
+            'my-slider': { valueProperty: 'position', changeEvent: 'position-commit' },
+            'my-input': false,
+          },
+        },
+      });
+
+      const slider = result.components.find(c => c.tagName === 'my-slider');
+      expect(slider?.formControl?.valueType).toBe('number');
+      expect(slider?.formControl?.changeEvent).toBe('position-commit');
+
+      const input = result.components.find(c => c.tagName === 'my-input');
+      expect(input?.formControl).toBeUndefined();
+    });
+  });
+
+  describe('Component Methods', () => {
+    beforeEach(() => {
+      const manifest = readFileSync(
+        join(__dirname, 'fixtures', 'component-methods.json'),
+        'utf-8'
+      );
+      writeFileSync(manifestPath, manifest);
+    });
+
+    it('should only collect public instance methods', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      const result = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+      });
+
+      const methods = result.components[0].methods;
+      expect(methods.map(m => m.name)).toEqual(['show', 'focus', 'scrollToRow']);
+      expect(methods[0]).toEqual({
+        name: 'show',
+        parameters: [
+          {
+            name: 'options',
+            type: 'DialogOptions',
+            optional: true,
+            rest: false,
+            description: 'Display options',
+          },
+        ],
+        returnType: 'Promise<void>',
+        returnDescription: 'Resolves once the dialog is visible',
+        description: 'Opens the dialog.',
+      });
+      expect(methods[1].returnType).toBe('void');
+    });
+
+    it('should forward methods to the underlying element', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        componentLibraryImport: 'dialog-lib',
+      });
+
+      const componentFile = join(wrappersRoot, 'src', 'lib', 'wc-my-dialog.component.ts');
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain("import type { DialogOptions } from 'dialog-lib';");
+      expect(content).toContain('   * Opens the dialog.\n   * @param options - Display options\n   * @returns Resolves once the dialog is visible\n   */');
+      expect(content).toContain('show(options?: DialogOptions): Promise<void> {\n    return (this.host.nativeElement as any).show(options);');
+      expect(content).toContain('/** Moves focus into the dialog. */\n  focus(): void {\n    (this.host.nativeElement as any).focus();');
+      expect(content).toContain('scrollToRow(index: number, ...rest: string[]): boolean {');
+      expect(content).toContain('.scrollToRow(index, ...rest);');
+      expect(content).not.toContain('connectedCallback');
+      expect(content).not.toContain('renderContent');
+    });
+  });
+
+  describe('Signal Mode', () => {
+    beforeEach(() => {
+      const manifest = readFileSync(
+        join(__dirname, 'fixtures', 'simple-component.json'),
+        'utf-8'
+      );
+      writeFileSync(manifestPath, manifest);
+    });
+
+    it('should keep decorator-based output by default', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+      });
+
+      const componentFile = join(wrappersRoot, 'src', 'lib', 'wc-my-button.component.ts');
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain('@Input() label: string;');
+      expect(content).not.toContain('input.required');
+    });
+
+    it('should generate signal inputs, outputs and effects', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        signals: true,
+      });
+
+      const componentFile = join(wrappersRoot, 'src', 'lib', 'wc-my-button.component.ts');
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain("import { AfterViewInit, CUSTOM_ELEMENTS_SCHEMA, ChangeDetectionStrategy, Component, DestroyRef, ElementRef, NgZone, ViewChild, booleanAttribute, effect, inject, input, output } from '@angular/core';");
+      expect(content).toContain('/** The button label */\n  readonly label = input.required<string>();');
+      expect(content).toContain(
+        'readonly disabled = input<boolean | undefined, unknown>(undefined, { transform: booleanAttribute });'
+      );
+      expect(content).toContain('readonly buttonClick = output<CustomEvent<void>>();');
+      expect(content).toContain('(this.host.nativeElement as any).label = this.label();');
+      expect(content).toContain('this.destroyRef.onDestroy(');
+      expect(content).not.toContain('@Input()');
+      expect(content).not.toContain('ngOnChanges');
+      expect(content).not.toContain('EventEmitter');
+    });
+
+    it('should generate models for two-way bindable properties', () => {
+      const manifest = {
+        schemaVersion: '1.0.0',
+        modules: [
+          {
+            kind: 'javascript-module',
+            path: 'src/components/my-rating.ts',
+            declarations: [
+              {
+                kind: 'class',
+                name: 'MyRating',
+                tagName: 'my-rating',
+                members: [
+                  { kind: 'field', name: 'value', type: { text: 'number' } },
+                ],
+                events: [
+                  { name: 'valueChange', type: { text: 'CustomEvent<number>' } },
+                  { name: 'rating-hover', type: { text: 'CustomEvent<number>' } },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+      writeFileSync(manifestPath, JSON.stringify(manifest));
+
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        signals: true,
+      });
+
+      const componentFile = join(wrappersRoot, 'src', 'lib', 'wc-my-rating.component.ts');
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain('readonly value = model<number>();');
+      expect(content).not.toContain('readonly valueChange = output');
+      expect(content).toContain("this.addEventListener('valueChange', () => this.value.set((this.host.nativeElement as any).value));");
+      expect(content).toContain("readonly ratingHover = output<CustomEvent<number>>({ alias: 'rating-hover' });");
+    });
+
+    it('should omit lifecycle hooks for components without inputs or events', () => {
+      const manifest = readFileSync(
+        join(__dirname, 'fixtures', 'no-props-or-events.json'),
+        'utf-8'
+      );
+      writeFileSync(manifestPath, manifest);
+
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        signals: true,
+      });
+
+      const componentFile = join(wrappersRoot, 'src', 'lib', 'wc-simple-container.component.ts');
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain('export class WcSimpleContainerComponent {');
+      expect(content).not.toContain('effect');
+      expect(content).not.toContain('ngAfterViewInit');
+    });
+  });
+
+  describe('Inheritance', () => {
+    beforeEach(() => {
+      const manifest = readFileSync(
+        join(__dirname, 'fixtures', 'inheritance.json'),
+        'utf-8'
+      );
+      writeFileSync(manifestPath, manifest);
+    });
+
+    it('should merge superclass and mixin members with override precedence', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      const result = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+      });
+
+      const textField = result.components.find(c => c.tagName === 'my-text-field')!;
+      const members = Object.fromEntries(textField.members.map(m => [m.name, m]));
+
+      // Own member overrides the superclass member
+      expect(members.value.type).toBe('string');
+      expect(members.value.inheritedFrom).toBeUndefined();
+
+      // Mixin member overrides the superclass member
+      expect(members.name.type).toBe('string | undefined');
+      expect(members.name.inheritedFrom).toEqual({
+        name: 'FocusableMixin',
+        module: 'src/mixins/focusable.ts',
+        package: undefined,
+      });
+
+      expect(members.autofocus.inheritedFrom?.name).toBe('FocusableMixin');
+      expect(textField.methods.map(m => m.name)).toEqual(['reset']);
+      expect(textField.methods[0].inheritedFrom?.name).toBe('BaseInput');
+      expect(textField.events.map(e => e.eventName).sort()).toEqual(['change', 'focus-visible']);
+    });
+
+    it('should generate inputs and outputs for inherited members', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+      });
+
+      const componentFile = join(wrappersRoot, 'src', 'lib', 'wc-my-text-field.component.ts');
+      const content = readFileSync(componentFile, 'utf-8');
+
+      expect(content).toContain('@Input({ transform: booleanAttribute }) autofocus?: boolean;');
+      expect(content).toContain('@Input() value?: string;');
+      expect(content).toContain("@Output('focus-visible') focusVisible");
+      expect(content).toContain('reset(): void {');
+    });
+
+    it('should resolve package-qualified references from reference manifests', () => {
+      const coreManifestPath = join(testDir, 'core-elements.json');
+      writeFileSync(
+        coreManifestPath,
+        readFileSync(join(__dirname, 'fixtures', 'inheritance-core-package.json'), 'utf-8')
+      );
+
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      const withoutReferences = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+      });
+      expect(
+        withoutReferences.components.find(c => c.tagName === 'my-select')!.members
+      ).toHaveLength(0);
+
+      const result = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        referenceManifests: { '@acme/core': coreManifestPath },
+      });
+
+      const select = result.components.find(c => c.tagName === 'my-select')!;
+      expect(select.members.map(m => m.name)).toEqual(['theme']);
+      expect(select.members[0].inheritedFrom).toEqual({
+        name: 'CoreElement',
+        module: 'src/core-element.ts',
+        package: '@acme/core',
+      });
+      expect(select.events.map(e => e.eventName)).toEqual(['ready']);
+    });
+
+    it('should let a mixin applied directly override a superclass that also uses it', () => {
+      writeFileSync(
+        manifestPath,
+        readFileSync(join(__dirname, 'fixtures', 'inheritance-diamond.json'), 'utf-8')
+      );
+
+      const result = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot: join(testDir, 'angular-wrappers'),
+      });
+
+      const button = result.components[0];
+      const members = Object.fromEntries(button.members.map(m => [m.name, m]));
+      expect(members.size.type).toBe("'small' | 'large'");
+      expect(members.size.inheritedFrom?.name).toBe('SizedMixin');
+      expect(members.disabled.inheritedFrom?.name).toBe('BaseButton');
+    });
+  });
+
+  describe('Dry Run', () => {
+    beforeEach(() => {
+      const manifest = readFileSync(
+        join(__dirname, 'fixtures', 'multiple-components.json'),
+        'utf-8'
+      );
+      writeFileSync(manifestPath, manifest);
+    });
+
+    it('should plan every file without writing to disk', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+
+      const result = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        dryRun: true,
+      });
+
+      expect(existsSync(wrappersRoot)).toBe(false);
+      expect(result.components).toHaveLength(3);
+      expect(result.plan.create.map((file) => file.path)).toEqual(
+        expect.arrayContaining([
+          join(wrappersRoot, 'package.json'),
+          join(wrappersRoot, 'src', 'lib', 'wc-my-badge.component.ts'),
+          join(wrappersRoot, 'src', 'public-api.ts'),
+        ])
+      );
+      expect(result.plan.modify).toEqual([]);
+      expect(result.plan.delete).toEqual([]);
+    });
+
+    it('should report modified files with diffs and stale files to delete', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      generateAngularWrappers({ manifestPath, wrappersRoot });
+
+      const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+      manifest.modules = manifest.modules.filter(
+        (mod: any) => mod.declarations[0].tagName === 'my-badge'
+      );
+      manifest.modules[0].declarations[0].members.push({
+        kind: 'field',
+        name: 'pill',
+        type: { text: 'boolean' },
+      });
+      writeFileSync(manifestPath, JSON.stringify(manifest));
+
+      const badgeFile = join(wrappersRoot, 'src', 'lib', 'wc-my-badge.component.ts');
+      const before = readFileSync(badgeFile, 'utf-8');
+
+      const result = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        dryRun: true,
+      });
+
+      const badgeChange = result.plan.modify.find((file) => file.path === badgeFile);
+      expect(badgeChange?.diff).toContain(
+        '--- a/src/lib/wc-my-badge.component.ts\n+++ b/src/lib/wc-my-badge.component.ts\n'
+      );
+      expect(badgeChange?.diff).toContain('+  @Input({ transform: booleanAttribute }) pill');
+      expect(result.plan.unchanged.map((file) => file.path)).toContain(
+        join(wrappersRoot, 'package.json')
+      );
+      expect(result.plan.delete).toEqual(
+        expect.arrayContaining([
+          join(wrappersRoot, 'src', 'lib', 'wc-my-card.component.ts'),
+          join(wrappersRoot, 'src', 'lib', 'wc-my-tooltip.component.ts'),
+        ])
+      );
+
+      // Nothing on disk changed
+      expect(readFileSync(badgeFile, 'utf-8')).toBe(before);
+      expect(existsSync(join(wrappersRoot, 'src', 'lib', 'wc-my-card.component.ts'))).toBe(true);
+    });
+
+    it('should plan symlinks without creating them', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      const componentsRoot = join(testDir, 'components-root');
+      const sourceRoot = join(testDir, 'source-root');
+      mkdirSync(componentsRoot, { recursive: true });
+      mkdirSync(join(sourceRoot, 'node_modules', 'tslib'), { recursive: true });
+
+      const result = generateAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        componentsRoot,
+        componentLibraryImport: 'my-components',
+        linkNodeModulesFrom: sourceRoot,
+        dryRun: true,
+      });
+
+      expect(result.plan.symlinks).toEqual([
+        {
+          target: join(sourceRoot, 'node_modules', 'tslib'),
+          path: join(wrappersRoot, 'node_modules', 'tslib'),
+        },
+        {
+          target: componentsRoot,
+          path: join(wrappersRoot, 'node_modules', 'my-components'),
+        },
+      ]);
+      expect(existsSync(join(wrappersRoot, 'node_modules'))).toBe(false);
+    });
+  });
+
+  describe('Check Mode', () => {
+    beforeEach(() => {
+      const manifest = readFileSync(
+        join(__dirname, 'fixtures', 'multiple-components.json'),
+        'utf-8'
+      );
+      writeFileSync(manifestPath, manifest);
+    });
+
+    it('should report up to date wrappers after generation', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      generateAngularWrappers({ manifestPath, wrappersRoot });
+
+      const result = checkAngularWrappers({ manifestPath, wrappersRoot });
+
+      expect(result.upToDate).toBe(true);
+      expect(result.missing).toEqual([]);
+      expect(result.stale).toEqual([]);
+      expect(result.orphaned).toEqual([]);
+    });
+
+    it('should report missing, stale and orphaned files without writing', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      generateAngularWrappers({ manifestPath, wrappersRoot });
+
+      const libDir = join(wrappersRoot, 'src', 'lib');
+      rmSync(join(libDir, 'wc-my-badge.component.ts'));
+      writeFileSync(join(wrappersRoot, 'src', 'public-api.ts'), '// edited\n');
+      writeFileSync(join(libDir, 'wc-my-removed.component.ts'), '// removed\n');
+
+      const result = checkAngularWrappers({ manifestPath, wrappersRoot });
+
+      expect(result.upToDate).toBe(false);
+      expect(result.missing).toEqual([join(libDir, 'wc-my-badge.component.ts')]);
+      expect(result.stale.map((file) => file.path)).toEqual([
+        join(wrappersRoot, 'src', 'public-api.ts'),
+      ]);
+      expect(result.stale[0].diff).toContain('-// edited');
+      expect(result.orphaned).toEqual([join(libDir, 'wc-my-removed.component.ts')]);
+      expect(existsSync(join(libDir, 'wc-my-badge.component.ts'))).toBe(false);
+    });
+
+    it('should ignore project files the generator does not overwrite', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      generateAngularWrappers({ manifestPath, wrappersRoot });
+      rmSync(join(wrappersRoot, 'package.json'));
+
+      expect(checkAngularWrappers({ manifestPath, wrappersRoot }).upToDate).toBe(true);
+    });
+
+    it('should check lit/index.ts in augmented output', () => {
+      const wrappersRoot = join(testDir, 'angular-wrappers');
+      generateAngularWrappers({ manifestPath, wrappersRoot, augmentAngularOutput: true });
+      writeFileSync(join(wrappersRoot, 'src', 'lib', 'lit', 'index.ts'), '');
+
+      const result = checkAngularWrappers({
+        manifestPath,
+        wrappersRoot,
+        augmentAngularOutput: true,
+      });
+
+      expect(result.upToDate).toBe(false);
+      expect(result.stale.map((file) => file.path)).toEqual([
+        join(wrappersRoot, 'src', 'lib', 'lit', 'index.ts'),
+      ]);
+    });
+  });
+
   describe('Node Modules Linking', () => {
     it('creates symlinks for shared dependencies and component library', () => {
       const wrappersRoot = join(testDir, 'angular-wrappers');
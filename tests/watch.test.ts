@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { watchAngularWrappers } from '../src/index';
+import type { AngularWrappersWatcher, WatchAngularWrappersOptions, WatchCycleSummary } from '../src/index';
+import { existsSync, mkdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('watchAngularWrappers', () => {
+  let testDir: string;
+  let manifestPath: string;
+  let wrappersRoot: string;
+  let watcher: AngularWrappersWatcher | undefined;
+  let cycles: WatchCycleSummary[];
+  let logs: string[];
+  let waiting: Array<() => void>;
+
+  const readFixture = (name: string) =>
+    JSON.parse(readFileSync(join(__dirname, 'fixtures', name), 'utf-8'));
+
+  const nextCycle = () =>
+    new Promise<WatchCycleSummary>((resolvePromise, reject) => {
+      const timeout = setTimeout(() => reject(new Error('No watch cycle ran')), 5000);
+      waiting.push(() => {
+        clearTimeout(timeout);
+        resolvePromise(cycles[cycles.length - 1]);
+      });
+    });
+
+  const startWatching = (options: Partial<WatchAngularWrappersOptions> = {}) =>
+    watchAngularWrappers({
+      manifestPath,
+      wrappersRoot,
+      debounceMs: 20,
+      ...options,
+      logger: {
+        log: (message) => logs.push(message),
+        warn: (message) => logs.push(`warn: ${message}`),
+      },
+      onCycle: (summary) => {
+        cycles.push(summary);
+        waiting.splice(0).forEach((resolveWaiting) => resolveWaiting());
+      },
+    });
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `cem-watch-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+    manifestPath = join(testDir, 'dist', 'custom-elements.json');
+    wrappersRoot = join(testDir, 'angular-wrappers');
+    mkdirSync(join(testDir, 'dist'));
+    writeFileSync(manifestPath, JSON.stringify(readFixture('multiple-components.json')));
+    cycles = [];
+    logs = [];
+    waiting = [];
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    watcher = undefined;
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should generate wrappers on start', () => {
+    watcher = startWatching();
+
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].added).toEqual(['my-badge', 'my-card', 'my-tooltip']);
+    expect(existsSync(join(wrappersRoot, 'src', 'lib', 'wc-my-card.component.ts'))).toBe(true);
+    expect(logs).toEqual([`Generated 3 wrapper(s) in ${wrappersRoot}`]);
+  });
+
+  it('should regenerate only components whose metadata changed', async () => {
+    watcher = startWatching();
+    const cardFile = join(wrappersRoot, 'src', 'lib', 'wc-my-card.component.ts');
+    const badgeFile = join(wrappersRoot, 'src', 'lib', 'wc-my-badge.component.ts');
+    const cardModified = statSync(cardFile).mtimeMs;
+
+    const manifest = readFixture('multiple-components.json');
+    const badgeModule = manifest.modules.find(
+      (mod: any) => mod.declarations[0].tagName === 'my-badge'
+    );
+    badgeModule.declarations[0].members.push({
+      kind: 'field',
+      name: 'pill',
+      type: { text: 'boolean' },
+    });
+    manifest.modules = manifest.modules.filter(
+      (mod: any) => mod.declarations[0].tagName !== 'my-tooltip'
+    );
+
+    const cycle = nextCycle();
+    writeFileSync(manifestPath, JSON.stringify(manifest));
+    const summary = await cycle;
+
+    expect(summary).toEqual({ added: [], updated: ['my-badge'], removed: ['my-tooltip'] });
+    expect(readFileSync(badgeFile, 'utf-8')).toContain('@Input({ transform: booleanAttribute }) pill');
+    expect(statSync(cardFile).mtimeMs).toBe(cardModified);
+    expect(existsSync(join(wrappersRoot, 'src', 'lib', 'wc-my-tooltip.component.ts'))).toBe(false);
+    expect(logs[logs.length - 1]).toBe(
+      'Wrappers regenerated: updated my-badge; removed my-tooltip'
+    );
+  });
+
+  it('should keep the previous wrappers when the manifest is malformed', async () => {
+    watcher = startWatching();
+    const cardFile = join(wrappersRoot, 'src', 'lib', 'wc-my-card.component.ts');
+
+    let cycle = nextCycle();
+    writeFileSync(manifestPath, '{"schemaVersion": "1.0.0", "modules": [');
+    const failed = await cycle;
+
+    expect(failed.error).toBeInstanceOf(Error);
+    expect(logs[logs.length - 1]).toMatch(/^warn: Skipping regeneration:/);
+    expect(existsSync(cardFile)).toBe(true);
+
+    cycle = nextCycle();
+    writeFileSync(manifestPath, JSON.stringify(readFixture('simple-component.json')));
+    const recovered = await cycle;
+
+    expect(recovered.error).toBeUndefined();
+    expect(recovered.added).toEqual(['my-button']);
+    expect(recovered.removed).toEqual(['my-badge', 'my-card', 'my-tooltip']);
+    expect(existsSync(cardFile)).toBe(false);
+  });
+
+  it('should skip regeneration when no component changed', async () => {
+    watcher = startWatching();
+    const logCount = logs.length;
+
+    const cycle = nextCycle();
+    writeFileSync(manifestPath, JSON.stringify(readFixture('multiple-components.json'), null, 2));
+    const summary = await cycle;
+
+    expect(summary).toEqual({ added: [], updated: [], removed: [] });
+    expect(logs).toHaveLength(logCount);
+  });
+
+  it('should not write anything in dry runs', async () => {
+    watcher = startWatching({ dryRun: true });
+
+    expect(cycles[0].added).toEqual(['my-badge', 'my-card', 'my-tooltip']);
+    expect(logs).toEqual([`Generated 3 wrapper(s) in ${wrappersRoot} (dry run, nothing written)`]);
+
+    const cycle = nextCycle();
+    writeFileSync(manifestPath, JSON.stringify(readFixture('simple-component.json')));
+    const summary = await cycle;
+
+    expect(summary.added).toEqual(['my-button']);
+    expect(existsSync(wrappersRoot)).toBe(false);
+  });
+
+  it('should run afterGenerate hooks after the wrappers are written', async () => {
+    const cardFile = join(wrappersRoot, 'src', 'lib', 'wc-my-card.component.ts');
+    const written: boolean[] = [];
+    watcher = startWatching({
+      plugins: [{ name: 'probe', afterGenerate: () => { written.push(existsSync(cardFile)); } }],
+    });
+
+    expect(written).toEqual([true]);
+
+    const cycle = nextCycle();
+    writeFileSync(manifestPath, JSON.stringify(readFixture('multiple-components.json'), null, 2));
+    await cycle;
+
+    expect(written).toEqual([true]);
+  });
+
+  it('should not create the manifest directory in dry runs', async () => {
+    const distDir = join(testDir, 'build', 'dist');
+    manifestPath = join(distDir, 'custom-elements.json');
+    watcher = startWatching({ dryRun: true });
+
+    expect(cycles).toHaveLength(0);
+    expect(existsSync(join(testDir, 'build'))).toBe(false);
+
+    const cycle = nextCycle();
+    mkdirSync(distDir, { recursive: true });
+    writeFileSync(manifestPath, JSON.stringify(readFixture('simple-component.json')));
+    const summary = await cycle;
+
+    expect(summary.added).toEqual(['my-button']);
+    expect(existsSync(wrappersRoot)).toBe(false);
+  });
+
+  it('should reject missing source directories before watching', () => {
+    const missing = join(testDir, 'missing');
+
+    expect(() => startWatching({ sourceDirs: [join(testDir, 'dist'), missing] })).toThrow(
+      `Watched source directory ${missing} does not exist.`
+    );
+    expect(cycles).toHaveLength(0);
+    expect(existsSync(wrappersRoot)).toBe(false);
+  });
+
+  it('should stop watching when closed', async () => {
+    watcher = startWatching();
+    watcher.close();
+
+    writeFileSync(manifestPath, JSON.stringify(readFixture('simple-component.json')));
+    await new Promise((resolveDelay) => setTimeout(resolveDelay, 100));
+
+    expect(cycles).toHaveLength(1);
+  });
+});